@@ -1,14 +1,26 @@
 /**
  * Cloudflare Pages Function to proxy Kalshi API requests
- * Handles CORS, authentication, and request signing using RSA-PSS
+ * Handles CORS, authentication, and request signing using RSA-PSS, and
+ * fetches news feeds for the app under /api/kalshi/feed
+ *
+ * Requests that act as the account owner (writes, portfolio reads and the
+ * stream) and feed fetches are only accepted from the app's own origin.
+ * That stops other sites from driving the account or the feed fetcher
+ * through a visitor's browser; it can't stop a scripted client that forges
+ * headers, so a public deployment should also sit behind an access gate
+ * such as Cloudflare Access.
  */
 
 const KALSHI_API_URL = "https://api.elections.kalshi.com/trade-api/v2";
 
-// CORS headers for browser requests
+// Workers open outbound sockets with fetch, so the stream URL uses https
+const KALSHI_WS_URL = "https://api.elections.kalshi.com/trade-api/ws/v2";
+const KALSHI_WS_PATH = "/trade-api/ws/v2";
+
+// CORS headers for public market data reads
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type",
   "Access-Control-Max-Age": "86400",
 };
@@ -16,6 +28,54 @@ const corsHeaders = {
 interface Env {
   KALSHI_API_KEY_ID: string;
   KALSHI_PRIVATE_KEY: string;
+  ALLOWED_ORIGINS?: string; // Comma-separated extra origins, e.g. a local dev server
+}
+
+type Context = Parameters<PagesFunction<Env>>[0];
+
+/**
+ * Origins allowed to act as the account owner: the app itself, which is
+ * served from the same origin as this function, plus ALLOWED_ORIGINS
+ */
+function appOrigins(context: Context): string[] {
+  const extra = (context.env.ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return [new URL(context.request.url).origin, ...extra];
+}
+
+/**
+ * Whether a request comes from the app. Browsers send Origin on every
+ * cross-origin request, writes and WebSocket upgrades; same-origin GETs
+ * carry none and are recognised by Sec-Fetch-Site instead.
+ */
+function isAppRequest(context: Context): boolean {
+  const origin = context.request.headers.get("Origin");
+  if (origin) return appOrigins(context).includes(origin);
+  return context.request.headers.get("Sec-Fetch-Site") === "same-origin";
+}
+
+/**
+ * CORS headers for requests that act as the account owner, scoped to the
+ * calling origin rather than *
+ */
+function appCorsHeaders(context: Context): Record<string, string> {
+  const origin = context.request.headers.get("Origin");
+  return {
+    ...(origin && appOrigins(context).includes(origin) ? { "Access-Control-Allow-Origin": origin } : {}),
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
+
+function forbidden(headers: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: "Origin not allowed" }), {
+    status: 403,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
 }
 
 /**
@@ -121,14 +181,278 @@ async function getAuthHeaders(
   };
 }
 
-export const onRequestOptions: PagesFunction<Env> = async () => {
+// Public channels browsers may subscribe to through the relay. The
+// private fill channel would stream the owner's fills to any client, so it
+// is only available to callers that sign their own connection.
+const STREAM_CHANNELS = new Set(["ticker", "orderbook_delta", "trade"]);
+
+// Per-client limits so one tab can't exhaust our upstream allowance
+const MAX_STREAM_SUBSCRIPTIONS = 25;
+const MAX_STREAM_TICKERS = 200;
+
+interface StreamCommand {
+  id?: number;
+  cmd?: string;
+  params?: {
+    channels?: string[];
+    market_tickers?: string[];
+    sids?: number[];
+  };
+}
+
+/**
+ * Relay a browser WebSocket to a signed upstream Kalshi socket.
+ * Subscribe commands are checked against the channel allowlist and the
+ * per-client cap, and only messages for this client's subscriptions are
+ * passed back down.
+ *
+ * Each browser connection gets its own upstream socket. Workers can't do
+ * I/O on a socket opened by another request, so sharing one upstream
+ * across clients needs a Durable Object, which Pages Functions can only
+ * bind from a separately deployed Worker. The per-client caps bound what
+ * each connection costs until then.
+ */
+async function relayStream(context: Context): Promise<Response> {
+  const { KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY } = context.env;
+
+  // WebSocket upgrades skip CORS, so the origin is checked here
+  if (!isAppRequest(context)) {
+    return new Response("Origin not allowed", { status: 403 });
+  }
+
+  if (!KALSHI_API_KEY_ID || !KALSHI_PRIVATE_KEY) {
+    return new Response("API credentials not configured", { status: 401 });
+  }
+
+  const authHeaders = await getAuthHeaders("GET", KALSHI_WS_PATH, KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY);
+  const upstreamResponse = await fetch(KALSHI_WS_URL, {
+    headers: {
+      Upgrade: "websocket",
+      "User-Agent": "KalshiAI/1.0",
+      ...authHeaders,
+    },
+  });
+
+  const upstream = upstreamResponse.webSocket;
+  if (!upstream) {
+    return new Response("Failed to connect to Kalshi stream", { status: 502 });
+  }
+
+  const [client, server] = Object.values(new WebSocketPair());
+  upstream.accept();
+  server.accept();
+
+  // Kalshi acks a subscribe once per channel, each with its own sid, so
+  // pending commands track the channels still awaiting an ack. Every live
+  // sid holds the command's tickers.
+  const pending = new Map<number, { tickers: number; channels: Set<string> }>();
+  const active = new Map<number, number>();
+  const pendingEntries = () => [...pending.values()];
+  const subscriptionCount = () =>
+    active.size + pendingEntries().reduce((sum, p) => sum + p.channels.size, 0);
+  const tickerCount = () =>
+    [...active.values()].reduce((sum, n) => sum + n, 0) +
+    pendingEntries().reduce((sum, p) => sum + p.tickers * p.channels.size, 0);
+
+  const reject = (id: number | undefined, message: string) => {
+    server.send(JSON.stringify({ id, type: "error", msg: { code: 400, msg: message } }));
+  };
+
+  server.addEventListener("message", (event) => {
+    let command: StreamCommand;
+    try {
+      command = JSON.parse(String(event.data));
+    } catch {
+      return reject(undefined, "Invalid JSON");
+    }
+
+    if (command.cmd === "subscribe") {
+      const channels = command.params?.channels ?? [];
+      const tickers = command.params?.market_tickers?.length ?? 0;
+
+      if (typeof command.id !== "number") {
+        return reject(undefined, "Subscribe commands need a numeric id");
+      }
+      if (channels.length === 0 || !channels.every((c) => STREAM_CHANNELS.has(c))) {
+        return reject(command.id, "Channel not allowed");
+      }
+      if (pending.has(command.id)) {
+        return reject(command.id, "Subscribe id already in use");
+      }
+      if (subscriptionCount() + channels.length > MAX_STREAM_SUBSCRIPTIONS) {
+        return reject(command.id, `Limit of ${MAX_STREAM_SUBSCRIPTIONS} subscriptions reached`);
+      }
+      if (tickerCount() + tickers * channels.length > MAX_STREAM_TICKERS) {
+        return reject(command.id, `Limit of ${MAX_STREAM_TICKERS} market tickers reached`);
+      }
+
+      pending.set(command.id, { tickers, channels: new Set(channels) });
+    } else if (command.cmd === "unsubscribe") {
+      const sids = command.params?.sids ?? [];
+      if (sids.length === 0 || !sids.every((sid) => active.has(sid))) {
+        return reject(command.id, "Unknown subscription");
+      }
+      sids.forEach((sid) => active.delete(sid));
+    } else {
+      return reject(command.id, "Unsupported command");
+    }
+
+    upstream.send(JSON.stringify(command));
+  });
+
+  upstream.addEventListener("message", (event) => {
+    let message: { id?: number; type?: string; sid?: number; msg?: { sid?: number; channel?: string } };
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      return;
+    }
+
+    if (message.type === "subscribed" && message.id !== undefined && message.msg?.sid !== undefined) {
+      const command = pending.get(message.id);
+      if (command) {
+        // An ack naming no channel we asked for settles whichever is still waiting
+        const acked = message.msg.channel;
+        command.channels.delete(
+          acked && command.channels.has(acked) ? acked : [...command.channels][0]
+        );
+        if (command.channels.size === 0) pending.delete(message.id);
+      }
+      active.set(message.msg.sid, command?.tickers ?? 0);
+    } else if (message.type === "error" && message.id !== undefined) {
+      pending.delete(message.id);
+    } else if (message.sid !== undefined && !active.has(message.sid)) {
+      // Late data for a subscription this client already dropped
+      return;
+    }
+
+    server.send(String(event.data));
+  });
+
+  // Closing either side tears down the other
+  server.addEventListener("close", () => upstream.close());
+  upstream.addEventListener("close", () => server.close(1011, "Upstream closed"));
+  upstream.addEventListener("error", () => server.close(1011, "Upstream error"));
+
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+// Feeds are fetched for the app's news timeline, which can't read most
+// of them directly because they don't send CORS headers
+const FEED_TIMEOUT_MS = 10 * 1000;
+const MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Fetch an RSS or Atom feed on the app's behalf. Only the app may use it,
+ * so the function isn't an open proxy for other sites.
+ */
+/**
+ * Read a body up to a byte limit, cancelling the stream once it passes
+ * it. Content-Length can be missing or wrong, so only counting the bytes
+ * as they arrive keeps an oversized feed out of memory.
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+async function proxyFeed(context: Context): Promise<Response> {
+  const headers = appCorsHeaders(context);
+  if (!isAppRequest(context)) return forbidden(headers);
+
+  const feedError = (status: number, error: string) =>
+    new Response(JSON.stringify({ error }), {
+      status,
+      headers: { ...headers, "Content-Type": "application/json" },
+    });
+
+  let feedUrl: URL;
+  try {
+    feedUrl = new URL(new URL(context.request.url).searchParams.get("url") ?? "");
+  } catch {
+    return feedError(400, "Missing or invalid feed url");
+  }
+  if (feedUrl.protocol !== "https:" && feedUrl.protocol !== "http:") {
+    return feedError(400, "Feeds must be http or https");
+  }
+
+  try {
+    const response = await fetch(feedUrl.toString(), {
+      headers: {
+        Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml",
+        "User-Agent": "KalshiAI/1.0",
+      },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    });
+
+    const declared = Number(response.headers.get("Content-Length"));
+    if (declared > MAX_FEED_BYTES) {
+      await response.body?.cancel();
+      return feedError(502, "Feed is too large");
+    }
+
+    const body = await readCapped(response, MAX_FEED_BYTES);
+    if (!body) return feedError(502, "Feed is too large");
+
+    return new Response(body, {
+      status: response.status,
+      headers: {
+        ...headers,
+        "Content-Type": response.headers.get("Content-Type") ?? "application/xml",
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Feed proxy error:", error);
+    return feedError(502, "Failed to fetch feed");
+  }
+}
+
+export const onRequestOptions: PagesFunction<Env> = async (context) => {
   return new Response(null, {
     status: 204,
-    headers: corsHeaders,
+    headers: isAppRequest(context) ? appCorsHeaders(context) : corsHeaders,
   });
 };
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
+  // The stream route upgrades to a WebSocket instead of proxying a request
+  if (context.request.headers.get("Upgrade") === "websocket") {
+    const url = new URL(context.request.url);
+    if (url.pathname.replace(/\/$/, "") === "/api/kalshi/ws") {
+      return relayStream(context).catch((error) => {
+        console.error("Stream relay error:", error);
+        return new Response("Failed to open Kalshi stream", { status: 500 });
+      });
+    }
+  }
+
+  if (new URL(context.request.url).pathname.replace(/\/$/, "") === "/api/kalshi/feed") {
+    return proxyFeed(context);
+  }
+
   try {
     const { KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY } = context.env;
 
@@ -137,6 +461,10 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     const pathParts = url.pathname.replace("/api/kalshi/", "");
     const fullPath = `/trade-api/v2/${pathParts}`;
 
+    // Account data is signed with the owner's key, so only the app may read it
+    const isPrivate = pathParts.startsWith("portfolio");
+    if (isPrivate && !isAppRequest(context)) return forbidden(appCorsHeaders(context));
+
     // Build the target URL
     const targetUrl = `${KALSHI_API_URL}/${pathParts}${url.search}`;
 
@@ -159,13 +487,14 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     // Get the response body
     const data = await response.text();
 
-    // Return the response with CORS headers
+    // Return the response with CORS headers. Account data must never land
+    // in a shared cache.
     return new Response(data, {
       status: response.status,
       headers: {
-        ...corsHeaders,
+        ...(isPrivate ? appCorsHeaders(context) : corsHeaders),
         "Content-Type": "application/json",
-        "Cache-Control": "public, max-age=10",
+        "Cache-Control": isPrivate ? "private, no-store" : "public, max-age=10",
       },
     });
   } catch (error) {
@@ -186,7 +515,17 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   }
 };
 
-export const onRequestPost: PagesFunction<Env> = async (context) => {
+/**
+ * Forward a write request to Kalshi, signed with our API key.
+ * Writes always require credentials and the app's origin, unlike public
+ * market data reads. Kalshi's order writes are POST (create, amend,
+ * decrease) and DELETE (cancel); PUT covers its endpoints that replace a
+ * resource, which RequestOptions also allows.
+ */
+async function forwardSigned(context: Context, method: "POST" | "PUT" | "DELETE"): Promise<Response> {
+  const headers = appCorsHeaders(context);
+  if (!isAppRequest(context)) return forbidden(headers);
+
   try {
     const { KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY } = context.env;
 
@@ -195,7 +534,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         JSON.stringify({ error: "API credentials not configured" }),
         {
           status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          headers: { ...headers, "Content-Type": "application/json" },
         }
       );
     }
@@ -205,17 +544,17 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     const fullPath = `/trade-api/v2/${pathParts}`;
     const targetUrl = `${KALSHI_API_URL}/${pathParts}${url.search}`;
 
-    const authHeaders = await getAuthHeaders("POST", fullPath, KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY);
+    const authHeaders = await getAuthHeaders(method, fullPath, KALSHI_API_KEY_ID, KALSHI_PRIVATE_KEY);
     const body = await context.request.text();
 
     const response = await fetch(targetUrl, {
-      method: "POST",
+      method,
       headers: {
         "Content-Type": "application/json",
         "User-Agent": "KalshiAI/1.0",
         ...authHeaders,
       },
-      body,
+      body: body || undefined,
     });
 
     const data = await response.text();
@@ -223,18 +562,28 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return new Response(data, {
       status: response.status,
       headers: {
-        ...corsHeaders,
+        ...headers,
         "Content-Type": "application/json",
+        "Cache-Control": "private, no-store",
       },
     });
   } catch (error) {
     console.error("Proxy error:", error);
     return new Response(
-      JSON.stringify({ error: "Failed to post to Kalshi API" }),
+      JSON.stringify({ error: `Failed to ${method.toLowerCase()} to Kalshi API` }),
       {
         status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        headers: { ...headers, "Content-Type": "application/json" },
       }
     );
   }
-};
+}
+
+export const onRequestPost: PagesFunction<Env> = (context) =>
+  forwardSigned(context, "POST");
+
+export const onRequestPut: PagesFunction<Env> = (context) =>
+  forwardSigned(context, "PUT");
+
+export const onRequestDelete: PagesFunction<Env> = (context) =>
+  forwardSigned(context, "DELETE");
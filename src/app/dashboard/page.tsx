@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import { useRouter } from "next/navigation";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -14,7 +15,6 @@ import {
   Filter,
   LayoutGrid,
   List,
-  Sparkles,
   Activity,
   DollarSign,
   BarChart3,
@@ -22,13 +22,24 @@ import {
   Eye,
   WifiOff,
 } from "lucide-react";
-import { DashboardLayout } from "@/components/dashboard";
-import { MarketCard, FeaturedMarketCard } from "@/components/market";
+import { DashboardLayout, InsightCard } from "@/components/dashboard";
+import { MarketCard, FeaturedMarketCard, ScoreBreakdown } from "@/components/market";
 import { Button, Skeleton, Badge } from "@/components/ui";
-import { cn, formatCompact } from "@/lib/utils";
+import { cn, formatCompact, formatRelativeTime, marketPath } from "@/lib/utils";
 import { kalshi } from "@/lib/kalshi/client";
+import { getMarketStream } from "@/lib/kalshi/stream";
+import { getRanker, RANKER_IDS, type RankerId } from "@/lib/kalshi/ranking";
+import { useMarketStream } from "@/hooks/use-market-stream";
+import { useRankingSettings } from "@/hooks/use-ranking-settings";
+import { useHydratedStores } from "@/hooks/use-hydrated-stores";
+import { useInsightFeed } from "@/hooks/use-insight-feed";
+import { useSmartMoney } from "@/hooks/use-smart-money";
+import { WHALE_SIGNAL_KINDS, type WhaleSignal } from "@/lib/kalshi/smart-money";
 import type { Market } from "@/lib/kalshi/types";
 
+// Insights at or above this confidence count as alerts
+const ALERT_CONFIDENCE = 70;
+
 // Stat card component
 function StatCard({
   icon: Icon,
@@ -97,90 +108,29 @@ function StatCard({
   );
 }
 
-// AI Insight card component
-function AIInsightCard({
-  title,
-  description,
-  confidence,
-  market,
-  type,
-}: {
-  title: string;
-  description: string;
-  confidence: number;
-  market: string;
-  type: "bullish" | "bearish" | "neutral";
-}) {
-  return (
-    <motion.div
-      className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3"
-      whileHover={{ scale: 1.01 }}
-    >
-      <div className="flex items-start justify-between">
-        <div className="flex items-center gap-2">
-          <div className="w-8 h-8 rounded-lg bg-[var(--accent)]/20 flex items-center justify-center">
-            <Brain className="w-4 h-4 text-[var(--accent)]" />
-          </div>
-          <div>
-            <p className="text-sm font-medium text-[var(--text-primary)]">{title}</p>
-            <p className="text-xs text-[var(--text-tertiary)]">{market}</p>
-          </div>
-        </div>
-        <Badge
-          variant={type === "bullish" ? "success" : type === "bearish" ? "destructive" : "secondary"}
-          size="sm"
-        >
-          {type === "bullish" ? "Bullish" : type === "bearish" ? "Bearish" : "Neutral"}
-        </Badge>
-      </div>
-
-      <p className="text-xs text-[var(--text-secondary)] leading-relaxed">{description}</p>
-
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-1 text-xs text-[var(--text-tertiary)]">
-          <Sparkles className="w-3 h-3 text-[var(--accent)]" />
-          <span>AI Confidence: {confidence}%</span>
-        </div>
-        <Button variant="ghost" size="sm" className="text-xs h-7 px-2">
-          View Details
-          <ArrowUpRight className="w-3 h-3" />
-        </Button>
-      </div>
-    </motion.div>
-  );
-}
-
 // Whale activity component
-function WhaleActivity({
-  wallet,
-  action,
-  market,
-  amount,
-  time,
-}: {
-  wallet: string;
-  action: "buy" | "sell";
-  market: string;
-  amount: number;
-  time: string;
-}) {
+function WhaleActivity({ signal, market }: { signal: WhaleSignal; market?: Market }) {
+  const router = useRouter();
+  const isYes = signal.side === "yes";
+
   return (
     <motion.div
-      className="flex items-center gap-3 p-3 rounded-lg bg-[var(--surface-2)] border border-[var(--border-default)]"
+      className="flex items-center gap-3 p-3 rounded-lg bg-[var(--surface-2)] border border-[var(--border-default)] cursor-pointer"
       initial={{ opacity: 0, x: -20 }}
       animate={{ opacity: 1, x: 0 }}
       whileHover={{ x: 4 }}
+      onClick={() => router.push(marketPath(signal.marketId))}
     >
       <div
         className={cn(
           "w-10 h-10 rounded-lg flex items-center justify-center",
-          action === "buy" ? "bg-[var(--up-muted)]" : "bg-[var(--down-muted)]"
+          isYes ? "bg-[var(--up-muted)]" : "bg-[var(--down-muted)]"
         )}
       >
         <Users
           className={cn(
             "w-5 h-5",
-            action === "buy" ? "text-[var(--up)]" : "text-[var(--down)]"
+            isYes ? "text-[var(--up)]" : "text-[var(--down)]"
           )}
         />
       </div>
@@ -188,20 +138,22 @@ function WhaleActivity({
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium text-[var(--text-primary)] truncate">
-            {wallet}
+            {market?.title ?? signal.marketId}
           </span>
-          <Badge variant={action === "buy" ? "success" : "destructive"} size="sm">
-            {action === "buy" ? "BUY" : "SELL"}
+          <Badge variant={isYes ? "success" : "destructive"} size="sm">
+            BUY {isYes ? "YES" : "NO"}
           </Badge>
         </div>
-        <p className="text-xs text-[var(--text-tertiary)] truncate">{market}</p>
+        <p className="text-xs text-[var(--text-tertiary)] truncate">
+          {WHALE_SIGNAL_KINDS[signal.kind]} · {signal.size.toLocaleString()} @ {signal.price}¢
+        </p>
       </div>
 
       <div className="text-right">
         <p className="text-sm font-semibold text-[var(--text-primary)] tabular-nums">
-          ${formatCompact(amount)}
+          ${formatCompact(signal.notional)}
         </p>
-        <p className="text-xs text-[var(--text-muted)]">{time}</p>
+        <p className="text-xs text-[var(--text-muted)]">{formatRelativeTime(signal.timestamp)}</p>
       </div>
     </motion.div>
   );
@@ -243,11 +195,71 @@ function ViewToggle({
   );
 }
 
+// Ranking strategy picker for a dashboard section
+function StrategySelect({
+  value,
+  onChange,
+}: {
+  value: RankerId;
+  onChange: (id: RankerId) => void;
+}) {
+  return (
+    <select
+      className="h-8 rounded-lg bg-[var(--surface-2)] border border-[var(--border-default)] px-2 text-xs text-[var(--text-secondary)]"
+      value={value}
+      onChange={(e) => onChange(e.target.value as RankerId)}
+      title={getRanker(value).description}
+    >
+      {RANKER_IDS.map((id) => (
+        <option key={id} value={id}>
+          {getRanker(id).name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 export default function DashboardPage() {
   const queryClient = useQueryClient();
+  const router = useRouter();
   const [view, setView] = React.useState<"grid" | "list">("grid");
 
-  // Fetch hot markets from Kalshi API
+  // Live ticks keep prices current, so polling only needs to refresh the rankings
+  const refetchInterval = () =>
+    getMarketStream().getStatus() === "open" ? 5 * 60 * 1000 : 60 * 1000;
+
+  const {
+    featuredStrategy,
+    hotStrategy,
+    weights,
+    eligibility,
+    setFeaturedStrategy,
+    setHotStrategy,
+  } = useRankingSettings();
+
+  useHydratedStores(useRankingSettings);
+
+  const featuredRanker = getRanker(featuredStrategy, weights, eligibility);
+  const hotRanker = getRanker(hotStrategy, weights, eligibility);
+
+  // Custom weights and eligibility only matter to the custom strategy
+  const rankingKey = (id: RankerId) => (id === "custom" ? [id, weights, eligibility] : [id]);
+
+  // Rank the featured market from the open universe
+  const {
+    data: featuredData,
+    isLoading: isLoadingFeatured,
+    error: featuredError,
+    refetch: refetchFeatured,
+    isFetching: isFetchingFeatured,
+  } = useQuery({
+    queryKey: ["kalshi", "ranked-markets", "featured", ...rankingKey(featuredStrategy)],
+    queryFn: () => kalshi.getRankedMarkets(featuredRanker, 1),
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval, // Every 60 seconds, or 5 minutes while streaming
+  });
+
+  // Rank hot markets, with one spare in case the featured market tops both
   const {
     data: hotMarketsData,
     isLoading: isLoadingHot,
@@ -255,10 +267,10 @@ export default function DashboardPage() {
     refetch: refetchHot,
     isFetching: isFetchingHot,
   } = useQuery({
-    queryKey: ["kalshi", "hot-markets"],
-    queryFn: () => kalshi.getHotMarkets(8),
-    staleTime: 30 * 1000, // 30 seconds
-    refetchInterval: 60 * 1000, // Auto-refresh every 60 seconds
+    queryKey: ["kalshi", "ranked-markets", "hot", ...rankingKey(hotStrategy)],
+    queryFn: () => kalshi.getRankedMarkets(hotRanker, 5),
+    staleTime: 30 * 1000,
+    refetchInterval,
   });
 
   // Fetch trending markets from Kalshi API
@@ -272,32 +284,53 @@ export default function DashboardPage() {
     queryKey: ["kalshi", "trending-markets"],
     queryFn: () => kalshi.getTrendingMarkets(6),
     staleTime: 30 * 1000,
-    refetchInterval: 60 * 1000,
+    refetchInterval,
   });
 
-  const isLoading = isLoadingHot || isLoadingTrending;
-  const isRefreshing = isFetchingHot || isFetchingTrending;
-  const hasError = hotError || trendingError;
+  const { insights, isLoading: isLoadingInsights } = useInsightFeed();
+  const {
+    signals: whaleSignals,
+    marketsByTicker: whaleMarkets,
+    isLoading: isLoadingWhales,
+  } = useSmartMoney();
+  const alertCount = insights.filter((i) => i.confidence >= ALERT_CONFIDENCE).length;
+
+  // Stream ticks for every market on screen straight into the query cache
+  useMarketStream([
+    ...(featuredData ?? []).map((r) => r.market.ticker),
+    ...(hotMarketsData ?? []).map((r) => r.market.ticker),
+    ...(trendingMarketsData ?? []).map((m) => m.ticker),
+  ]);
+
+  const isLoading = isLoadingFeatured || isLoadingHot || isLoadingTrending;
+  const isRefreshing = isFetchingFeatured || isFetchingHot || isFetchingTrending;
+  const hasError = featuredError || hotError || trendingError;
 
   const handleRefresh = async () => {
-    await Promise.all([refetchHot(), refetchTrending()]);
+    await Promise.all([refetchFeatured(), refetchHot(), refetchTrending()]);
   };
 
-  // Get featured market (first hot market - highest score)
-  const featuredMarket = hotMarketsData?.[0] ?? null;
-  const hotMarkets = hotMarketsData?.slice(1, 5) ?? [];
+  const featured = featuredData?.[0] ?? null;
+  const hotMarkets = (hotMarketsData ?? [])
+    .filter((r) => r.market.ticker !== featured?.market.ticker)
+    .slice(0, 4);
   const trendingMarkets = trendingMarketsData ?? [];
 
   // Calculate total volume from markets
   const totalVolume24h = React.useMemo(() => {
-    const allMarkets = [...(hotMarketsData ?? []), ...(trendingMarketsData ?? [])];
+    const allMarkets = [
+      ...(featuredData ?? []).map((r) => r.market),
+      ...(hotMarketsData ?? []).map((r) => r.market),
+      ...(trendingMarketsData ?? []),
+    ];
     const uniqueMarkets = allMarkets.filter((m, i, arr) =>
       arr.findIndex(x => x.ticker === m.ticker) === i
     );
     return uniqueMarkets.reduce((sum, m) => sum + (m.volume_24h || 0), 0);
-  }, [hotMarketsData, trendingMarketsData]);
+  }, [featuredData, hotMarketsData, trendingMarketsData]);
 
-  const activeMarketsCount = (hotMarketsData?.length ?? 0) + (trendingMarketsData?.length ?? 0);
+  const activeMarketsCount =
+    (featured ? 1 : 0) + hotMarkets.length + (trendingMarketsData?.length ?? 0);
 
   return (
     <DashboardLayout>
@@ -386,7 +419,7 @@ export default function DashboardPage() {
               <StatCard
                 icon={AlertTriangle}
                 label="AI Alerts"
-                value="0"
+                value={String(alertCount)}
                 gradient="bg-gradient-to-br from-[var(--warning)] to-transparent"
               />
             </>
@@ -404,13 +437,21 @@ export default function DashboardPage() {
                   <Zap className="w-5 h-5 text-[var(--accent)]" />
                   Featured Market
                 </h2>
+                <StrategySelect value={featuredStrategy} onChange={setFeaturedStrategy} />
               </div>
 
               {isLoading ? (
                 <Skeleton className="h-72 rounded-2xl" />
-              ) : featuredMarket ? (
-                <FeaturedMarketCard market={featuredMarket} />
-              ) : null}
+              ) : featured ? (
+                <div className="space-y-2">
+                  <FeaturedMarketCard market={featured.market} />
+                  <ScoreBreakdown ranked={featured} strategy={featuredRanker.name} />
+                </div>
+              ) : (
+                <p className="py-12 text-center text-sm text-[var(--text-tertiary)]">
+                  No markets qualify for this strategy right now
+                </p>
+              )}
             </div>
 
             {/* Hot Markets */}
@@ -420,10 +461,13 @@ export default function DashboardPage() {
                   <TrendingUp className="w-5 h-5 text-[var(--up)]" />
                   Hot Markets
                 </h2>
-                <Button variant="ghost" size="sm">
-                  View All
-                  <ArrowUpRight className="w-4 h-4" />
-                </Button>
+                <div className="flex items-center gap-2">
+                  <StrategySelect value={hotStrategy} onChange={setHotStrategy} />
+                  <Button variant="ghost" size="sm">
+                    View All
+                    <ArrowUpRight className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
 
               {isLoading ? (
@@ -442,8 +486,11 @@ export default function DashboardPage() {
                   layout
                 >
                   <AnimatePresence mode="popLayout">
-                    {hotMarkets.map((market) => (
-                      <MarketCard key={market.ticker} market={market} />
+                    {hotMarkets.map((ranked) => (
+                      <motion.div key={ranked.market.ticker} className="space-y-2" layout>
+                        <MarketCard market={ranked.market} />
+                        <ScoreBreakdown ranked={ranked} strategy={hotRanker.name} />
+                      </motion.div>
                     ))}
                   </AnimatePresence>
                 </motion.div>
@@ -489,12 +536,17 @@ export default function DashboardPage() {
                   <Brain className="w-5 h-5 text-[var(--accent)]" />
                   AI Insights
                 </h2>
-                <Badge variant="default" size="sm" className="animate-pulse">
-                  Live
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Badge variant="default" size="sm" className="animate-pulse">
+                    Live
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={() => router.push("/insights")}>
+                    View All
+                  </Button>
+                </div>
               </div>
 
-              {isLoading ? (
+              {isLoadingInsights ? (
                 <div className="space-y-3">
                   {[...Array(3)].map((_, i) => (
                     <Skeleton key={i} className="h-32 rounded-xl" />
@@ -502,27 +554,14 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  <AIInsightCard
-                    title="Mispriced Opportunity"
-                    description="AI analysis suggests BTC $100k market is underpriced. Current sentiment indicators and on-chain metrics show 15% edge potential."
-                    confidence={87}
-                    market="Bitcoin $100k by 2024"
-                    type="bullish"
-                  />
-                  <AIInsightCard
-                    title="Resolution Risk"
-                    description="Oracle ambiguity detected. Resolution criteria may lead to dispute. Consider reducing exposure."
-                    confidence={72}
-                    market="Apple Foldable 2025"
-                    type="bearish"
-                  />
-                  <AIInsightCard
-                    title="Smart Money Moving"
-                    description="3 wallets with >80% win rate just entered positions. Volume spike of 340% in last hour."
-                    confidence={91}
-                    market="Fed Rate Cut Dec"
-                    type="bullish"
-                  />
+                  {insights.slice(0, 3).map((insight) => (
+                    <InsightCard key={insight.id} insight={insight} />
+                  ))}
+                  {insights.length === 0 && (
+                    <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+                      No signals right now
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -534,12 +573,12 @@ export default function DashboardPage() {
                   <Users className="w-5 h-5 text-[var(--up)]" />
                   Whale Activity
                 </h2>
-                <Button variant="ghost" size="sm">
+                <Button variant="ghost" size="sm" onClick={() => router.push("/smart-money")}>
                   View All
                 </Button>
               </div>
 
-              {isLoading ? (
+              {isLoadingWhales ? (
                 <div className="space-y-3">
                   {[...Array(4)].map((_, i) => (
                     <Skeleton key={i} className="h-16 rounded-lg" />
@@ -547,34 +586,18 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  <WhaleActivity
-                    wallet="0x8f23...c4d2"
-                    action="buy"
-                    market="Trump 2024"
-                    amount={125000}
-                    time="2m ago"
-                  />
-                  <WhaleActivity
-                    wallet="0xab12...9e8f"
-                    action="sell"
-                    market="BTC $100k"
-                    amount={89000}
-                    time="5m ago"
-                  />
-                  <WhaleActivity
-                    wallet="0x3c45...a7b1"
-                    action="buy"
-                    market="Fed Rate Cut"
-                    amount={250000}
-                    time="12m ago"
-                  />
-                  <WhaleActivity
-                    wallet="0xd6e7...2f3c"
-                    action="buy"
-                    market="Starship Orbit"
-                    amount={67000}
-                    time="18m ago"
-                  />
+                  {whaleSignals.slice(0, 4).map((signal) => (
+                    <WhaleActivity
+                      key={signal.id}
+                      signal={signal}
+                      market={whaleMarkets.get(signal.marketId)}
+                    />
+                  ))}
+                  {whaleSignals.length === 0 && (
+                    <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+                      No outsized trades on the recent tape
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,275 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Activity, ListOrdered, Scale, WifiOff } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { EventOutcomesChart } from "@/components/market";
+import { Badge, Skeleton } from "@/components/ui";
+import { cn, formatPercent, marketPath } from "@/lib/utils";
+import { eventsApi, normalizeMarket } from "@/lib/kalshi/client";
+import { analyzeEvent, type EventAnalysis, type EventOutcome } from "@/lib/kalshi/event-analysis";
+
+// Headline stat
+function Stat({
+  label,
+  value,
+  hint,
+  tone,
+}: {
+  label: string;
+  value: string;
+  hint?: string;
+  tone?: "up" | "down";
+}) {
+  return (
+    <div className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+      <p className="text-xs text-[var(--text-tertiary)]">{label}</p>
+      <p
+        className={cn(
+          "text-xl font-bold tabular-nums mt-1",
+          tone === "up" && "text-[var(--up)]",
+          tone === "down" && "text-[var(--down)]",
+          !tone && "text-[var(--text-primary)]"
+        )}
+      >
+        {value}
+      </p>
+      {hint && <p className="text-xs text-[var(--text-muted)] mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+// Card wrapper for the page sections
+function Section({
+  icon: Icon,
+  title,
+  children,
+}: {
+  icon: React.ElementType;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+      <h3 className="text-sm font-semibold text-[var(--text-primary)] flex items-center gap-2 mb-4">
+        <Icon className="w-4 h-4 text-[var(--accent)]" />
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+// Book-wide pricing for mutually exclusive events
+function OverroundSummary({ analysis }: { analysis: EventAnalysis }) {
+  const { askSum, bidSum, overround, arbitrage } = analysis;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Stat label="Sum of yes asks" value={askSum === null ? "—" : `${askSum}¢`} hint="Cost of every outcome" />
+        <Stat label="Sum of yes bids" value={`${bidSum}¢`} />
+        <Stat
+          label="Overround"
+          value={overround === null ? "—" : `${overround > 0 ? "+" : ""}${overround}¢`}
+          hint="Asks above 100¢ are the book's vig"
+          tone={overround !== null && overround < 0 ? "up" : undefined}
+        />
+        <Stat label="Implied total" value={formatPercent(analysis.impliedSum, 0)} hint="From mids, before de-vigging" />
+      </div>
+
+      {arbitrage && (
+        <div className="p-4 rounded-xl bg-[var(--up-muted)] border border-[var(--up)]/30 text-sm text-[var(--text-primary)]">
+          {arbitrage.kind === "buy-all-yes"
+            ? `Buying yes on every outcome costs ${arbitrage.cost}¢ and pays 100¢: ${arbitrage.edge}¢ edge before fees.`
+            : `Buying no on every outcome costs ${arbitrage.cost}¢ and pays ${arbitrage.cost + arbitrage.edge}¢: ${arbitrage.edge}¢ edge before fees.`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// One row per outcome market
+function OutcomesTable({ outcomes, showFair }: { outcomes: EventOutcome[]; showFair: boolean }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm tabular-nums">
+        <thead>
+          <tr className="text-xs text-[var(--text-muted)] uppercase tracking-wider">
+            <th className="pb-2 text-left font-medium">Outcome</th>
+            <th className="pb-2 text-right font-medium">Bid / Ask</th>
+            <th className="pb-2 text-right font-medium">Implied</th>
+            {showFair && <th className="pb-2 text-right font-medium">No-vig</th>}
+            <th className="pb-2 pl-4 font-medium w-1/4" />
+          </tr>
+        </thead>
+        <tbody>
+          {outcomes.map(({ market, impliedProbability, fairProbability }) => {
+            const probability = fairProbability ?? impliedProbability;
+            return (
+              <tr key={market.ticker} className="border-t border-[var(--border-default)]">
+                <td className="py-2 pr-3">
+                  <Link
+                    href={marketPath(market.ticker)}
+                    className="text-[var(--text-primary)] hover:text-[var(--accent)]"
+                  >
+                    {market.yes_sub_title || market.subtitle || market.title}
+                  </Link>
+                  {market.status !== "active" && market.status !== "open" && (
+                    <Badge variant="secondary" size="sm" className="ml-2 capitalize">
+                      {market.status}
+                    </Badge>
+                  )}
+                </td>
+                <td className="py-2 text-right font-mono text-[var(--text-secondary)]">
+                  {market.yes_bid}¢ / {market.yes_ask}¢
+                </td>
+                <td className="py-2 text-right font-mono text-[var(--text-primary)]">
+                  {formatPercent(impliedProbability)}
+                </td>
+                {showFair && (
+                  <td className="py-2 text-right font-mono text-[var(--accent)]">
+                    {fairProbability === null ? "—" : formatPercent(fairProbability)}
+                  </td>
+                )}
+                <td className="py-2 pl-4">
+                  <div className="h-1.5 rounded-full bg-[var(--surface-3)] overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-[var(--accent)]"
+                      style={{ width: `${Math.min(probability, 1) * 100}%` }}
+                    />
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function EventDetail({ eventTicker }: { eventTicker: string }) {
+  const {
+    data: event,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["kalshi", "event", eventTicker],
+    queryFn: () => eventsApi.getEvent(eventTicker),
+    staleTime: 15 * 1000,
+    refetchInterval: 30 * 1000,
+  });
+
+  const analysis = React.useMemo(
+    () => (event ? analyzeEvent(event, (event.markets ?? []).map(normalizeMarket)) : null),
+    [event]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 rounded-xl" />
+        <Skeleton className="h-64 rounded-xl" />
+      </div>
+    );
+  }
+
+  if (error || !event || !analysis) {
+    return (
+      <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+        <WifiOff className="w-5 h-5 text-[var(--down)]" />
+        <p className="text-sm text-[var(--text-primary)]">
+          Unable to load event {eventTicker}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center gap-1 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+        >
+          <ArrowLeft className="w-3 h-3" />
+          Back
+        </Link>
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Badge variant="secondary" size="sm">
+              {event.category}
+            </Badge>
+            {event.mutually_exclusive && (
+              <Badge variant="info" size="sm">
+                Mutually exclusive
+              </Badge>
+            )}
+            <span className="text-xs text-[var(--text-muted)] font-mono">{event.event_ticker}</span>
+            {event.series_ticker && (
+              <Link
+                href={`/series/?ticker=${encodeURIComponent(event.series_ticker)}`}
+                className="text-xs text-[var(--accent)] hover:underline"
+              >
+                Series history
+              </Link>
+            )}
+          </div>
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)]">
+            {event.title}
+          </h1>
+        </div>
+      </div>
+
+      {analysis.mutuallyExclusive && analysis.outcomes.length > 1 ? (
+        <OverroundSummary analysis={analysis} />
+      ) : (
+        <p className="text-sm text-[var(--text-tertiary)]">
+          Outcomes in this event can resolve independently, so their prices aren&apos;t expected to sum to 100¢.
+        </p>
+      )}
+
+      <Section icon={Activity} title="Outcomes Over Time">
+        <EventOutcomesChart markets={analysis.outcomes.map((o) => o.market)} />
+      </Section>
+
+      <Section icon={analysis.mutuallyExclusive ? Scale : ListOrdered} title="Outcomes">
+        {analysis.outcomes.length === 0 ? (
+          <p className="text-sm text-[var(--text-tertiary)]">This event has no markets</p>
+        ) : (
+          <OutcomesTable outcomes={analysis.outcomes} showFair={analysis.mutuallyExclusive} />
+        )}
+      </Section>
+    </div>
+  );
+}
+
+function EventView() {
+  const eventTicker = useSearchParams().get("ticker");
+
+  if (!eventTicker) {
+    return (
+      <div className="h-64 rounded-xl border border-dashed border-[var(--border-default)] flex items-center justify-center text-sm text-[var(--text-tertiary)]">
+        No event selected
+      </div>
+    );
+  }
+
+  return <EventDetail key={eventTicker} eventTicker={eventTicker} />;
+}
+
+export default function EventPage() {
+  return (
+    <DashboardLayout>
+      {/* useSearchParams needs a Suspense boundary for static export */}
+      <React.Suspense fallback={<Skeleton className="h-96 rounded-xl" />}>
+        <EventView />
+      </React.Suspense>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import * as React from "react";
+import { Brain, Search, Trash2, WifiOff } from "lucide-react";
+import { DashboardLayout, InsightCard } from "@/components/dashboard";
+import { Button, Input, Skeleton } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { INSIGHT_KINDS, type Insight, type InsightKind } from "@/lib/kalshi/insights";
+import { useInsightFeed } from "@/hooks/use-insight-feed";
+import { useInsightHistory } from "@/hooks/use-insight-history";
+
+const DIRECTIONS: { value: Insight["direction"]; label: string }[] = [
+  { value: "bullish", label: "Bullish" },
+  { value: "bearish", label: "Bearish" },
+  { value: "neutral", label: "Neutral" },
+];
+
+const MIN_CONFIDENCE_OPTIONS = [0, 50, 70, 90];
+
+// Filter chip
+function Chip({
+  label,
+  active,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "px-3 py-1.5 rounded-full text-xs font-medium border transition-colors",
+        active
+          ? "bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/30"
+          : "bg-[var(--surface-2)] text-[var(--text-tertiary)] border-[var(--border-default)] hover:text-[var(--text-secondary)]"
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+export default function InsightsPage() {
+  const { insights, isLoading, error } = useInsightFeed();
+  const records = useInsightHistory((state) => state.records);
+  const clear = useInsightHistory((state) => state.clear);
+
+  const [kind, setKind] = React.useState<InsightKind | null>(null);
+  const [direction, setDirection] = React.useState<Insight["direction"] | null>(null);
+  const [minConfidence, setMinConfidence] = React.useState(0);
+  const [liveOnly, setLiveOnly] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+
+  const liveIds = React.useMemo(() => new Set(insights.map((i) => i.id)), [insights]);
+
+  const filtered = React.useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return records.filter(
+      (record) =>
+        (!kind || record.kind === kind) &&
+        (!direction || record.direction === direction) &&
+        record.confidence >= minConfidence &&
+        (!liveOnly || liveIds.has(record.id)) &&
+        (!term ||
+          record.marketTitle.toLowerCase().includes(term) ||
+          record.ticker.toLowerCase().includes(term))
+    );
+  }, [records, kind, direction, minConfidence, liveOnly, liveIds, search]);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Page header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+              <Brain className="w-6 h-6 text-[var(--accent)]" />
+              AI Insights
+            </h1>
+            <p className="text-sm text-[var(--text-secondary)] mt-1">
+              Every signal the feed has surfaced. Live signals update in place.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={clear} disabled={records.length === 0}>
+            <Trash2 className="w-4 h-4" />
+            Clear history
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3">
+          <Input
+            icon={<Search className="w-4 h-4" />}
+            className="h-9 text-sm"
+            placeholder="Search markets or tickers"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Chip label="All signals" active={!kind} onClick={() => setKind(null)} />
+            {(Object.keys(INSIGHT_KINDS) as InsightKind[]).map((k) => (
+              <Chip key={k} label={INSIGHT_KINDS[k]} active={kind === k} onClick={() => setKind(k)} />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Chip label="Any direction" active={!direction} onClick={() => setDirection(null)} />
+            {DIRECTIONS.map((d) => (
+              <Chip key={d.value} label={d.label} active={direction === d.value} onClick={() => setDirection(d.value)} />
+            ))}
+            <span className="w-px h-5 bg-[var(--border-default)] mx-1" />
+            {MIN_CONFIDENCE_OPTIONS.map((c) => (
+              <Chip
+                key={c}
+                label={c === 0 ? "Any confidence" : `${c}%+`}
+                active={minConfidence === c}
+                onClick={() => setMinConfidence(c)}
+              />
+            ))}
+            <span className="w-px h-5 bg-[var(--border-default)] mx-1" />
+            <Chip label="Live only" active={liveOnly} onClick={() => setLiveOnly((l) => !l)} />
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+            <WifiOff className="w-5 h-5 text-[var(--down)]" />
+            <p className="text-sm text-[var(--text-primary)]">
+              Unable to load markets from Kalshi API. Showing saved history.
+            </p>
+          </div>
+        )}
+
+        {!isLoading && (
+          <p className="text-xs text-[var(--text-tertiary)]">
+            {filtered.length} of {records.length} recorded · {insights.length} live
+          </p>
+        )}
+
+        {/* Results */}
+        <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {isLoading && records.length === 0
+            ? [...Array(6)].map((_, i) => <Skeleton key={i} className="h-40 rounded-xl" />)
+            : filtered.map((record) => (
+                <InsightCard
+                  key={record.id}
+                  insight={record}
+                  timestamp={record.lastSeenAt}
+                  className={liveIds.has(record.id) ? undefined : "opacity-60"}
+                />
+              ))}
+        </div>
+
+        {!isLoading && filtered.length === 0 && (
+          <p className="py-12 text-center text-sm text-[var(--text-tertiary)]">
+            No insights match these filters
+          </p>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,374 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Clock,
+  FileText,
+  Layers,
+  Activity,
+  Newspaper,
+  ShieldAlert,
+  WifiOff,
+} from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import {
+  OrderBookLadder,
+  MarketPriceChart,
+  TruthEnginePanel,
+  ResolutionRiskBadge,
+  ResolutionRiskPanel,
+  NewsTimeline,
+} from "@/components/market";
+import { Badge, Button, Skeleton } from "@/components/ui";
+import {
+  cn,
+  formatCompact,
+  formatCountdown,
+  formatRelativeTime,
+  eventPath,
+  marketPath,
+} from "@/lib/utils";
+import { kalshi, marketsApi } from "@/lib/kalshi/client";
+import { analyzeResolutionRisk } from "@/lib/kalshi/resolution-risk";
+import { useMarketStream } from "@/hooks/use-market-stream";
+import { useOrderTicket } from "@/hooks/use-order-ticket";
+import type { Market } from "@/lib/kalshi/types";
+
+const TRADES_TAPE_SIZE = 40;
+
+function formatDateTime(value?: string): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// Headline stat
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+      <p className="text-xs text-[var(--text-tertiary)]">{label}</p>
+      <p className="text-xl font-bold text-[var(--text-primary)] tabular-nums mt-1">
+        {value}
+      </p>
+    </div>
+  );
+}
+
+// Card wrapper for the page sections
+function Section({
+  icon: Icon,
+  title,
+  children,
+}: {
+  icon: React.ElementType;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+      <h3 className="text-sm font-semibold text-[var(--text-primary)] flex items-center gap-2 mb-4">
+        <Icon className="w-4 h-4 text-[var(--accent)]" />
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+// Recent fills across the market
+function TradesTape({ ticker }: { ticker: string }) {
+  const { data: trades, isLoading } = useQuery({
+    queryKey: ["kalshi", "trades", ticker],
+    queryFn: async () =>
+      (await marketsApi.getTradesPage({ ticker, limit: TRADES_TAPE_SIZE })).trades,
+    staleTime: 10 * 1000,
+    refetchInterval: 15 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-1">
+        {[...Array(6)].map((_, i) => (
+          <Skeleton key={i} className="h-6" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!trades || trades.length === 0) {
+    return <p className="text-sm text-[var(--text-tertiary)]">No recent trades</p>;
+  }
+
+  return (
+    <div className="max-h-80 overflow-y-auto">
+      <table className="w-full text-xs tabular-nums font-mono">
+        <thead>
+          <tr className="text-[var(--text-muted)] uppercase tracking-wider">
+            <th className="pb-2 text-left font-medium">Side</th>
+            <th className="pb-2 text-right font-medium">Price</th>
+            <th className="pb-2 text-right font-medium">Size</th>
+            <th className="pb-2 text-right font-medium">Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trades.map((trade) => (
+            <tr key={trade.trade_id} className="border-t border-[var(--border-default)]">
+              <td
+                className={cn(
+                  "py-1.5 uppercase",
+                  trade.taker_side === "yes" ? "text-[var(--up)]" : "text-[var(--down)]"
+                )}
+              >
+                {trade.taker_side}
+              </td>
+              <td className="py-1.5 text-right text-[var(--text-primary)]">
+                {trade.taker_side === "yes" ? trade.yes_price : trade.no_price}¢
+              </td>
+              <td className="py-1.5 text-right text-[var(--text-secondary)]">
+                {formatCompact(trade.count)}
+              </td>
+              <td className="py-1.5 text-right text-[var(--text-tertiary)]">
+                {formatRelativeTime(trade.created_time)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Other markets in the same event
+function SiblingMarkets({ market }: { market: Market }) {
+  const { data: siblings, isLoading } = useQuery({
+    queryKey: ["kalshi", "event-markets", market.event_ticker],
+    queryFn: () => marketsApi.getMarkets({ event_ticker: market.event_ticker }),
+    staleTime: 60 * 1000,
+  });
+
+  const others = (siblings ?? [])
+    .filter((m) => m.ticker !== market.ticker)
+    .sort((a, b) => b.last_price - a.last_price);
+
+  if (isLoading) return <Skeleton className="h-24 rounded-lg" />;
+  if (others.length === 0) {
+    return <p className="text-sm text-[var(--text-tertiary)]">This is the only market in its event</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <Link
+        href={eventPath(market.event_ticker)}
+        className="block p-2 text-xs text-[var(--accent)] hover:underline"
+      >
+        Compare all outcomes
+      </Link>
+      {others.map((m) => (
+        <Link
+          key={m.ticker}
+          href={marketPath(m.ticker)}
+          className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-[var(--surface-3)] transition-colors"
+        >
+          <span className="text-sm text-[var(--text-secondary)] truncate">
+            {m.yes_sub_title || m.title}
+          </span>
+          <span className="text-sm font-mono tabular-nums text-[var(--text-primary)]">
+            {m.last_price}¢
+          </span>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function MarketDetail({ ticker }: { ticker: string }) {
+  const openTicket = useOrderTicket((state) => state.open);
+
+  const {
+    data: market,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["kalshi", "market", ticker],
+    queryFn: () => kalshi.getEnrichedMarket(ticker),
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+
+  // Live ticks land straight in the market query above
+  useMarketStream([ticker]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 rounded-xl" />
+        <Skeleton className="h-64 rounded-xl" />
+      </div>
+    );
+  }
+
+  if (error || !market) {
+    return (
+      <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+        <WifiOff className="w-5 h-5 text-[var(--down)]" />
+        <p className="text-sm text-[var(--text-primary)]">
+          Unable to load market {ticker}
+        </p>
+      </div>
+    );
+  }
+
+  const risk = analyzeResolutionRisk(market);
+
+  const timing: [string, string][] = [
+    ["Opened", formatDateTime(market.open_time)],
+    ["Closes", `${formatDateTime(market.close_time)} (${formatCountdown(market.close_time)})`],
+    ["Expected expiration", formatDateTime(market.expected_expiration_time)],
+    ["Latest expiration", formatDateTime(market.latest_expiration_time ?? market.expiration_time)],
+    ["Settlement timer", market.settlement_timer_seconds ? `${Math.round(market.settlement_timer_seconds / 60)} min` : "—"],
+    ["Can close early", market.can_close_early ? "Yes" : "No"],
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center gap-1 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+        >
+          <ArrowLeft className="w-3 h-3" />
+          Back
+        </Link>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant="secondary" size="sm" className="capitalize">
+                {market.status}
+              </Badge>
+              <ResolutionRiskBadge risk={risk} />
+              <span className="text-xs text-[var(--text-muted)] font-mono">
+                {market.ticker}
+              </span>
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)]">
+              {market.title}
+            </h1>
+            {market.subtitle && (
+              <p className="text-sm text-[var(--text-secondary)] mt-1">{market.subtitle}</p>
+            )}
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <Button variant="success" onClick={() => openTicket(market, "yes")}>
+              Yes {market.yes_ask}¢
+            </Button>
+            <Button variant="destructive" onClick={() => openTicket(market, "no")}>
+              No {market.no_ask}¢
+            </Button>
+          </div>
+        </div>
+
+        {(market.yes_sub_title || market.no_sub_title) && (
+          <div className="grid sm:grid-cols-2 gap-2 text-sm">
+            <p className="p-3 rounded-lg bg-[var(--up-muted)] text-[var(--up)]">
+              <span className="font-semibold">Yes:</span> {market.yes_sub_title || "—"}
+            </p>
+            <p className="p-3 rounded-lg bg-[var(--down-muted)] text-[var(--down)]">
+              <span className="font-semibold">No:</span> {market.no_sub_title || "—"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Stat label="Last price" value={`${market.last_price}¢`} />
+        <Stat label="24h volume" value={formatCompact(market.volume_24h)} />
+        <Stat label="Open interest" value={formatCompact(market.open_interest)} />
+        <Stat label="Liquidity" value={`$${formatCompact(market.liquidity / 100)}`} />
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Section icon={Activity} title="Price">
+            <MarketPriceChart market={market} />
+          </Section>
+
+          <Section icon={FileText} title="Rules">
+            <div className="space-y-3 text-sm text-[var(--text-secondary)] leading-relaxed whitespace-pre-line">
+              <p>{market.rules_primary || "No rules published."}</p>
+              {market.rules_secondary && <p>{market.rules_secondary}</p>}
+            </div>
+          </Section>
+
+          <Section icon={Activity} title="Recent Trades">
+            <TradesTape ticker={market.ticker} />
+          </Section>
+
+          <Section icon={Newspaper} title="News">
+            <NewsTimeline market={market} />
+          </Section>
+        </div>
+
+        <div className="space-y-6">
+          <OrderBookLadder market={market} />
+
+          <TruthEnginePanel market={market} />
+
+          <Section icon={ShieldAlert} title="Oracle Risk Radar">
+            <ResolutionRiskPanel risk={risk} />
+          </Section>
+
+          <Section icon={Clock} title="Timing">
+            <dl className="space-y-2 text-sm">
+              {timing.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-3">
+                  <dt className="text-[var(--text-tertiary)]">{label}</dt>
+                  <dd className="text-right text-[var(--text-secondary)] tabular-nums">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </Section>
+
+          <Section icon={Layers} title="Other Markets in This Event">
+            <SiblingMarkets market={market} />
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function MarketView() {
+  const ticker = useSearchParams().get("ticker");
+
+  if (!ticker) {
+    return (
+      <div className="h-64 rounded-xl border border-dashed border-[var(--border-default)] flex items-center justify-center text-sm text-[var(--text-tertiary)]">
+        No market selected
+      </div>
+    );
+  }
+
+  return <MarketDetail key={ticker} ticker={ticker} />;
+}
+
+export default function MarketPage() {
+  return (
+    <DashboardLayout>
+      {/* useSearchParams needs a Suspense boundary for static export */}
+      <React.Suspense fallback={<Skeleton className="h-96 rounded-xl" />}>
+        <MarketView />
+      </React.Suspense>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { TrendingUp, Link2, Check, WifiOff, RotateCcw } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { MarketCard } from "@/components/market";
+import { Button, Input, Skeleton, SkeletonMarketCard } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_UNIVERSE_MAX_PAGES,
+  kalshi,
+  marketsApi,
+  normalizeMarket,
+} from "@/lib/kalshi/client";
+import {
+  MARKET_CATEGORIES,
+  MARKET_SORTS,
+  CLOSE_WINDOWS,
+  applyMarketQuery,
+  canSortMarkets,
+  filterMarkets,
+  parseMarketQuery,
+  serializeMarketQuery,
+  sortsClientSide,
+  toMarketFilters,
+  type CloseWindow,
+  type MarketQuery,
+  type MarketQueryStatus,
+  type MarketSort,
+} from "@/lib/kalshi/market-query";
+import type { Market } from "@/lib/kalshi/types";
+
+const PAGE_SIZE = 200;
+
+const STATUS_OPTIONS: { value: MarketQueryStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "unopened", label: "Upcoming" },
+  { value: "closed", label: "Closed" },
+  { value: "settled", label: "Settled" },
+  { value: "all", label: "All" },
+];
+
+// Filter chip
+function Chip({
+  label,
+  active,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "px-3 py-1.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 disabled:pointer-events-none",
+        active
+          ? "bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/30"
+          : "bg-[var(--surface-2)] text-[var(--text-tertiary)] border-[var(--border-default)] hover:text-[var(--text-secondary)]"
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Labelled row of filter controls
+function FilterRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-2">
+      <span className="w-24 flex-shrink-0 text-xs text-[var(--text-muted)] uppercase tracking-wider">
+        {label}
+      </span>
+      <div className="flex flex-wrap items-center gap-2">{children}</div>
+    </div>
+  );
+}
+
+// Text filter that only updates the URL on Enter or blur
+function CommitInput({
+  value,
+  onCommit,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value?: string | number;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = React.useState(value === undefined ? "" : String(value));
+
+  return (
+    <Input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.trim())}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onCommit(draft.trim());
+      }}
+    />
+  );
+}
+
+/**
+ * Every market matching the query's API filters, for a sort to run over.
+ * Capped like the open market universe, and flagged when the cap is hit.
+ */
+async function loadAllMatching(query: MarketQuery) {
+  const markets: Market[] = [];
+  let complete = false;
+
+  for await (const page of marketsApi.iterateMarketPages(
+    toMarketFilters(query, Math.floor(Date.now() / 1000)),
+    { maxPages: DEFAULT_UNIVERSE_MAX_PAGES }
+  )) {
+    markets.push(...page.markets.map(normalizeMarket));
+    complete = !page.cursor;
+  }
+
+  return { markets, complete };
+}
+
+function toNumber(value: string): number | undefined {
+  return value === "" || !Number.isFinite(Number(value)) ? undefined : Number(value);
+}
+
+function MarketsBrowser() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const query = React.useMemo(
+    () => parseMarketQuery(new URLSearchParams(queryString)),
+    [queryString]
+  );
+  const sortable = canSortMarkets(query);
+  const sorted = sortsClientSide(query);
+  const [copied, setCopied] = React.useState(false);
+  // Restarts from the first page when the query changes
+  const [shown, setShown] = React.useState({ query: queryString, count: PAGE_SIZE });
+  const shownCount = shown.query === queryString ? shown.count : PAGE_SIZE;
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+
+  const update = (changes: Partial<MarketQuery>) => {
+    const params = serializeMarketQuery({ ...query, ...changes });
+    router.replace(`/markets/?${params}`);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  // Category lives on series, so resolve it to the series tickers it contains
+  const { data: categorySeries } = useQuery({
+    queryKey: ["kalshi", "series", query.category],
+    queryFn: () => kalshi.series.listSeries({ category: query.category }),
+    enabled: !!query.category,
+    staleTime: 10 * 60 * 1000,
+    select: (series) => new Set(series.map((s) => s.ticker)),
+  });
+
+  // A sort needs every matching market, so those are walked in full
+  const {
+    data: allMatching,
+    isLoading: allLoading,
+    error: allError,
+  } = useQuery({
+    queryKey: [
+      "kalshi",
+      "markets-browser-all",
+      query.status,
+      query.series,
+      query.event,
+      query.closesWithin,
+    ],
+    queryFn: () => loadAllMatching(query),
+    enabled: sorted,
+    staleTime: 60 * 1000,
+  });
+
+  // Otherwise the API filters and pages through in Kalshi's order
+  const {
+    data,
+    isLoading: pagesLoading,
+    error: pagesError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    // The close window is resolved against the clock when each page loads
+    queryKey: [
+      "kalshi",
+      "markets-browser",
+      query.status,
+      query.series,
+      query.event,
+      query.closesWithin,
+    ],
+    queryFn: ({ pageParam }) =>
+      marketsApi.getMarketsPage({
+        ...toMarketFilters(query, Math.floor(Date.now() / 1000)),
+        limit: PAGE_SIZE,
+        cursor: pageParam,
+      }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !sorted,
+    staleTime: 60 * 1000,
+  });
+
+  const isLoading = sorted ? allLoading : pagesLoading;
+  const error = sorted ? allError : pagesError;
+
+  const matching = React.useMemo(() => {
+    if (sorted) return applyMarketQuery(allMatching?.markets ?? [], query, categorySeries);
+    const loaded = data?.pages.flatMap((page) => page.markets.map(normalizeMarket)) ?? [];
+    return filterMarkets(loaded, query, categorySeries);
+  }, [sorted, allMatching, data, query, categorySeries]);
+
+  // Sorted rows are all loaded already, so they're only revealed as the list scrolls
+  const markets = sorted ? matching.slice(0, shownCount) : matching;
+  const loadedCount = sorted
+    ? allMatching?.markets.length ?? 0
+    : data?.pages.reduce((sum, page) => sum + page.markets.length, 0) ?? 0;
+  const hasMore = sorted ? matching.length > shownCount : !!hasNextPage;
+
+  const loadMore = React.useCallback(() => {
+    if (sorted) {
+      setShown({ query: queryString, count: shownCount + PAGE_SIZE });
+    } else if (!isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [sorted, queryString, shownCount, isFetchingNextPage, fetchNextPage]);
+
+  // Load more whenever the end of the list scrolls into view
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore();
+      },
+      { rootMargin: "600px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+            <TrendingUp className="w-6 h-6 text-[var(--accent)]" />
+            Markets
+          </h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Browse every Kalshi market. Filters are saved in the link.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => router.replace("/markets/")}>
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" onClick={copyLink}>
+            {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+            {copied ? "Copied" : "Share view"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters, keyed on the URL so drafts reset when it changes */}
+      <div
+        key={queryString}
+        className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3"
+      >
+        <FilterRow label="Status">
+          {STATUS_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              active={query.status === option.value}
+              onClick={() => update({ status: option.value })}
+            />
+          ))}
+        </FilterRow>
+
+        <FilterRow label="Category">
+          <Chip label="Any" active={!query.category} onClick={() => update({ category: undefined })} />
+          {MARKET_CATEGORIES.map((c) => (
+            <Chip key={c} label={c} active={query.category === c} onClick={() => update({ category: c })} />
+          ))}
+        </FilterRow>
+
+        <FilterRow label="Closes in">
+          <Chip label="Any time" active={!query.closesWithin} onClick={() => update({ closesWithin: undefined })} />
+          {(Object.keys(CLOSE_WINDOWS) as CloseWindow[]).map((w) => (
+            <Chip key={w} label={w} active={query.closesWithin === w} onClick={() => update({ closesWithin: w })} />
+          ))}
+        </FilterRow>
+
+        <FilterRow label="Series / event">
+          <CommitInput
+            className="w-40 h-8 text-xs font-mono"
+            placeholder="Series ticker"
+            value={query.series}
+            onCommit={(v) => update({ series: v.toUpperCase() || undefined })}
+          />
+          <CommitInput
+            className="w-48 h-8 text-xs font-mono"
+            placeholder="Event ticker"
+            value={query.event}
+            onCommit={(v) => update({ event: v.toUpperCase() || undefined })}
+          />
+        </FilterRow>
+
+        <FilterRow label="24h volume">
+          <CommitInput type="number" min={0} className="w-28 h-8 text-xs" placeholder="Min" value={query.minVolume} onCommit={(v) => update({ minVolume: toNumber(v) })} />
+          <CommitInput type="number" min={0} className="w-28 h-8 text-xs" placeholder="Max" value={query.maxVolume} onCommit={(v) => update({ maxVolume: toNumber(v) })} />
+        </FilterRow>
+
+        <FilterRow label="Liquidity $">
+          <CommitInput type="number" min={0} className="w-28 h-8 text-xs" placeholder="Min" value={query.minLiquidity} onCommit={(v) => update({ minLiquidity: toNumber(v) })} />
+          <CommitInput type="number" min={0} className="w-28 h-8 text-xs" placeholder="Max" value={query.maxLiquidity} onCommit={(v) => update({ maxLiquidity: toNumber(v) })} />
+        </FilterRow>
+
+        <FilterRow label="Sort">
+          {(Object.keys(MARKET_SORTS) as MarketSort[]).map((s) => (
+            <Chip
+              key={s}
+              label={MARKET_SORTS[s]}
+              active={sortable ? query.sort === s : s === "listed"}
+              disabled={!sortable && s !== "listed"}
+              onClick={() => update({ sort: s })}
+            />
+          ))}
+          {!sortable && (
+            <span className="text-xs text-[var(--text-muted)]">
+              Kalshi can&apos;t sort this many markets, so they&apos;re listed in its order. Pick open
+              markets or a series or event to sort.
+            </span>
+          )}
+        </FilterRow>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+          <WifiOff className="w-5 h-5 text-[var(--down)]" />
+          <p className="text-sm text-[var(--text-primary)]">
+            Unable to load markets from Kalshi API
+          </p>
+        </div>
+      )}
+
+      {!isLoading && (
+        <p className="text-xs text-[var(--text-tertiary)]">
+          {sorted
+            ? `${matching.length} matching of ${loadedCount} markets, sorted across all of them`
+            : `${markets.length} matching of ${loadedCount} loaded`}
+          {sorted && allMatching && !allMatching.complete && " · Kalshi's list was cut off, so some are missing"}
+          {!sorted && hasNextPage && " · scroll for more"}
+        </p>
+      )}
+
+      {/* Results */}
+      <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {isLoading
+          ? [...Array(6)].map((_, i) => <SkeletonMarketCard key={i} />)
+          : markets.map((market) => <MarketCard key={market.ticker} market={market} />)}
+      </div>
+
+      {!isLoading && markets.length === 0 && !hasMore && (
+        <p className="py-12 text-center text-sm text-[var(--text-tertiary)]">
+          No markets match these filters
+        </p>
+      )}
+
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && <Skeleton className="h-10 rounded-lg" />}
+    </div>
+  );
+}
+
+export default function MarketsPage() {
+  return (
+    <DashboardLayout>
+      {/* useSearchParams needs a Suspense boundary for static export */}
+      <React.Suspense fallback={<Skeleton className="h-96 rounded-xl" />}>
+        <MarketsBrowser />
+      </React.Suspense>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,485 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Search,
+  Plus,
+  Trash2,
+  Save,
+  Play,
+  ArrowUp,
+  ArrowDown,
+  WifiOff,
+} from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { Badge, Button, Input, Skeleton } from "@/components/ui";
+import { cn, formatCompact, generateId, marketPath } from "@/lib/utils";
+import { kalshi } from "@/lib/kalshi/client";
+import {
+  PRESET_SCREENS,
+  SCREEN_FIELDS,
+  SCREEN_OPERATORS,
+  runScreen,
+  type Screen,
+  type ScreenFieldKey,
+  type ScreenGroup,
+  type ScreenOperator,
+  type ScreenRule,
+} from "@/lib/kalshi/screener";
+import { useSavedScreens } from "@/hooks/use-saved-screens";
+import { useHydratedStores } from "@/hooks/use-hydrated-stores";
+import type { Market } from "@/lib/kalshi/types";
+
+const RESULT_COLUMNS: ScreenFieldKey[] = [
+  "yes_ask",
+  "spread",
+  "volume_24h",
+  "open_interest",
+  "liquidity",
+  "hours_to_close",
+  "change24h",
+];
+
+const MAX_RESULTS = 200;
+
+// The builder edits one level of groups under the root
+interface EditorGroup {
+  combinator: "and" | "or";
+  rules: ScreenRule[];
+}
+
+interface EditorScreen {
+  id: string;
+  name: string;
+  combinator: "and" | "or";
+  groups: EditorGroup[];
+}
+
+function toEditor(screen: Screen): EditorScreen {
+  return {
+    id: screen.id,
+    name: screen.name,
+    combinator: screen.root.combinator,
+    // Bare rules at the root become single-rule groups, which matches the same markets
+    groups: screen.root.rules.map((node) =>
+      "combinator" in node
+        ? {
+            combinator: node.combinator,
+            rules: node.rules.filter((r): r is ScreenRule => !("combinator" in r)),
+          }
+        : { combinator: "and", rules: [node] }
+    ),
+  };
+}
+
+function fromEditor(editor: EditorScreen): Screen {
+  const root: ScreenGroup = { combinator: editor.combinator, rules: editor.groups };
+  return { id: editor.id, name: editor.name || "Untitled screen", root, updatedAt: "" };
+}
+
+function newRule(): ScreenRule {
+  return { field: "volume_24h", operator: "gte", value: 1000 };
+}
+
+function formatField(market: Market, field: ScreenFieldKey, nowMs: number): string {
+  const value = SCREEN_FIELDS[field].value(market, nowMs);
+  if (value === null) return "—";
+
+  switch (field) {
+    case "liquidity":
+      return `$${formatCompact(value)}`;
+    case "change24h":
+      return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+    case "hours_to_close":
+      return value < 48 ? `${value.toFixed(1)}h` : `${(value / 24).toFixed(0)}d`;
+    case "yes_ask":
+    case "spread":
+      return `${value}¢`;
+    default:
+      return formatCompact(value);
+  }
+}
+
+const selectClass =
+  "h-8 rounded-lg bg-[var(--surface-3)] border border-[var(--border-default)] px-2 text-xs text-[var(--text-primary)]";
+
+// AND/OR switch
+function CombinatorToggle({
+  value,
+  onChange,
+}: {
+  value: "and" | "or";
+  onChange: (value: "and" | "or") => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-[var(--border-default)] overflow-hidden">
+      {(["and", "or"] as const).map((c) => (
+        <button
+          key={c}
+          onClick={() => onChange(c)}
+          className={cn(
+            "px-2.5 py-1 text-xs font-semibold uppercase",
+            value === c
+              ? "bg-[var(--accent)]/15 text-[var(--accent)]"
+              : "text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+          )}
+        >
+          {c}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// One editable rule
+function RuleRow({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: ScreenRule;
+  onChange: (rule: ScreenRule) => void;
+  onRemove: () => void;
+}) {
+  const unit = (SCREEN_FIELDS[rule.field] as { unit?: string }).unit;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        className={selectClass}
+        value={rule.field}
+        onChange={(e) => onChange({ ...rule, field: e.target.value as ScreenFieldKey })}
+      >
+        {(Object.keys(SCREEN_FIELDS) as ScreenFieldKey[]).map((key) => (
+          <option key={key} value={key}>
+            {SCREEN_FIELDS[key].label}
+          </option>
+        ))}
+      </select>
+      <select
+        className={selectClass}
+        value={rule.operator}
+        onChange={(e) => onChange({ ...rule, operator: e.target.value as ScreenOperator })}
+      >
+        {(Object.keys(SCREEN_OPERATORS) as ScreenOperator[]).map((op) => (
+          <option key={op} value={op}>
+            {SCREEN_OPERATORS[op]}
+          </option>
+        ))}
+      </select>
+      <Input
+        type="number"
+        className="w-24 h-8 text-xs"
+        value={rule.value}
+        onChange={(e) => onChange({ ...rule, value: Number(e.target.value) })}
+      />
+      {rule.operator === "between" && (
+        <>
+          <span className="text-xs text-[var(--text-tertiary)]">and</span>
+          <Input
+            type="number"
+            className="w-24 h-8 text-xs"
+            value={rule.value2 ?? rule.value}
+            onChange={(e) => onChange({ ...rule, value2: Number(e.target.value) })}
+          />
+        </>
+      )}
+      {unit && <span className="text-xs text-[var(--text-tertiary)]">{unit}</span>}
+      <button
+        onClick={onRemove}
+        className="p-1.5 rounded-md text-[var(--text-tertiary)] hover:text-[var(--down)] hover:bg-[var(--surface-3)]"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+// Sortable results table
+function ResultsTable({ markets, nowMs }: { markets: Market[]; nowMs: number }) {
+  const router = useRouter();
+  const [sort, setSort] = React.useState<{ field: ScreenFieldKey | "title"; desc: boolean }>({
+    field: "volume_24h",
+    desc: true,
+  });
+
+  const sorted = React.useMemo(() => {
+    const direction = sort.desc ? -1 : 1;
+    return [...markets]
+      .sort((a, b) => {
+        if (sort.field === "title") return direction * a.title.localeCompare(b.title);
+        // Missing metrics always sort last
+        const av = SCREEN_FIELDS[sort.field].value(a, nowMs) ?? (sort.desc ? -Infinity : Infinity);
+        const bv = SCREEN_FIELDS[sort.field].value(b, nowMs) ?? (sort.desc ? -Infinity : Infinity);
+        return av === bv ? 0 : direction * (av < bv ? -1 : 1);
+      })
+      .slice(0, MAX_RESULTS);
+  }, [markets, sort, nowMs]);
+
+  const header = (field: ScreenFieldKey | "title", label: string) => (
+    <th className={cn("pb-2 font-medium", field !== "title" && "text-right")}>
+      <button
+        onClick={() =>
+          setSort((s) => ({ field, desc: s.field === field ? !s.desc : field !== "title" }))
+        }
+        className="inline-flex items-center gap-1 hover:text-[var(--text-secondary)]"
+      >
+        {label}
+        {sort.field === field &&
+          (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-xs text-[var(--text-muted)] uppercase tracking-wider border-b border-[var(--border-default)]">
+            {header("title", "Market")}
+            {RESULT_COLUMNS.map((field) => (
+              <React.Fragment key={field}>{header(field, SCREEN_FIELDS[field].label)}</React.Fragment>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((market) => (
+            <tr
+              key={market.ticker}
+              onClick={() => router.push(marketPath(market.ticker))}
+              className="border-b border-[var(--border-default)] last:border-0 cursor-pointer hover:bg-[var(--surface-3)]"
+            >
+              <td className="py-2.5 pr-4 max-w-xs">
+                <p className="text-sm text-[var(--text-primary)] truncate">{market.title}</p>
+                <p className="text-xs text-[var(--text-muted)] font-mono truncate">{market.ticker}</p>
+              </td>
+              {RESULT_COLUMNS.map((field) => (
+                <td
+                  key={field}
+                  className="py-2.5 pl-4 text-right text-xs font-mono tabular-nums text-[var(--text-secondary)] whitespace-nowrap"
+                >
+                  {formatField(market, field, nowMs)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ScreenerPage() {
+  const { screens: savedScreens, save, remove } = useSavedScreens();
+  const [editor, setEditor] = React.useState<EditorScreen>(() => toEditor(PRESET_SCREENS[0]));
+  const [activeScreen, setActiveScreen] = React.useState<Screen>(PRESET_SCREENS[0]);
+
+  useHydratedStores(useSavedScreens);
+
+  const {
+    data: universe,
+    isLoading,
+    error,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: ["kalshi", "open-markets"],
+    queryFn: () => kalshi.getOpenMarkets(),
+    staleTime: 60 * 1000,
+  });
+
+  const results = React.useMemo(
+    () => (universe ? runScreen(universe, activeScreen, dataUpdatedAt) : []),
+    [universe, activeScreen, dataUpdatedAt]
+  );
+
+  const updateGroup = (index: number, group: EditorGroup) =>
+    setEditor((e) => ({ ...e, groups: e.groups.map((g, i) => (i === index ? group : g)) }));
+
+  const load = (screen: Screen) => {
+    setEditor(toEditor(screen));
+    setActiveScreen(screen);
+  };
+
+  const saveScreen = () => {
+    // Presets are read-only, so saving one makes a copy
+    const id = editor.id.startsWith("preset-") ? generateId() : editor.id;
+    const screen = fromEditor({ ...editor, id });
+    save(screen);
+    setEditor((e) => ({ ...e, id }));
+    setActiveScreen(screen);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Page header */}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+            <Search className="w-6 h-6 text-[var(--accent)]" />
+            Screener
+          </h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Combine rules on price, spread, volume, liquidity and timing to find markets
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-4 gap-6">
+          {/* Saved and preset screens */}
+          <div className="space-y-4">
+            {[
+              { title: "Saved", screens: savedScreens, removable: true },
+              { title: "Presets", screens: PRESET_SCREENS, removable: false },
+            ].map(({ title, screens, removable }) => (
+              <div key={title} className="space-y-2">
+                <h3 className="text-xs text-[var(--text-muted)] uppercase tracking-wider">{title}</h3>
+                {screens.length === 0 && (
+                  <p className="text-xs text-[var(--text-tertiary)]">No saved screens yet</p>
+                )}
+                {screens.map((screen) => (
+                  <div
+                    key={screen.id}
+                    className={cn(
+                      "flex items-center justify-between gap-2 p-2.5 rounded-lg border transition-colors",
+                      activeScreen.id === screen.id
+                        ? "bg-[var(--accent)]/10 border-[var(--accent)]/30"
+                        : "bg-[var(--surface-2)] border-[var(--border-default)] hover:bg-[var(--surface-3)]"
+                    )}
+                  >
+                    <button onClick={() => load(screen)} className="flex-1 text-left text-sm text-[var(--text-primary)] truncate">
+                      {screen.name}
+                    </button>
+                    {removable && (
+                      <button
+                        onClick={() => remove(screen.id)}
+                        className="p-1 text-[var(--text-tertiary)] hover:text-[var(--down)]"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Builder */}
+          <div className="lg:col-span-3 space-y-4">
+            <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <Input
+                  className="max-w-xs h-9"
+                  placeholder="Screen name"
+                  value={editor.name}
+                  onChange={(e) => setEditor((ed) => ({ ...ed, name: e.target.value }))}
+                />
+                <span className="text-xs text-[var(--text-tertiary)]">Match</span>
+                <CombinatorToggle
+                  value={editor.combinator}
+                  onChange={(combinator) => setEditor((e) => ({ ...e, combinator }))}
+                />
+                <span className="text-xs text-[var(--text-tertiary)]">of these groups</span>
+              </div>
+
+              {editor.groups.map((group, gi) => (
+                <div
+                  key={gi}
+                  className="p-3 rounded-lg bg-[var(--surface-3)]/50 border border-[var(--border-default)] space-y-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                      Group {gi + 1} · match
+                      <CombinatorToggle
+                        value={group.combinator}
+                        onChange={(combinator) => updateGroup(gi, { ...group, combinator })}
+                      />
+                    </div>
+                    <button
+                      onClick={() => setEditor((e) => ({ ...e, groups: e.groups.filter((_, i) => i !== gi) }))}
+                      className="p-1.5 rounded-md text-[var(--text-tertiary)] hover:text-[var(--down)]"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  {group.rules.map((rule, ri) => (
+                    <RuleRow
+                      key={ri}
+                      rule={rule}
+                      onChange={(next) =>
+                        updateGroup(gi, { ...group, rules: group.rules.map((r, i) => (i === ri ? next : r)) })
+                      }
+                      onRemove={() =>
+                        updateGroup(gi, { ...group, rules: group.rules.filter((_, i) => i !== ri) })
+                      }
+                    />
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateGroup(gi, { ...group, rules: [...group.rules, newRule()] })}
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add rule
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setEditor((e) => ({ ...e, groups: [...e.groups, { combinator: "and", rules: [newRule()] }] }))
+                  }
+                >
+                  <Plus className="w-4 h-4" />
+                  Add group
+                </Button>
+                <div className="flex-1" />
+                <Button variant="outline" size="sm" onClick={saveScreen}>
+                  <Save className="w-4 h-4" />
+                  Save
+                </Button>
+                <Button size="sm" onClick={() => setActiveScreen(fromEditor(editor))}>
+                  <Play className="w-4 h-4" />
+                  Run
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+                <WifiOff className="w-5 h-5 text-[var(--down)]" />
+                <p className="text-sm text-[var(--text-primary)]">Unable to load markets from Kalshi API</p>
+              </div>
+            )}
+
+            {/* Results */}
+            <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold text-[var(--text-primary)]">{activeScreen.name}</h3>
+                {universe && (
+                  <Badge variant="secondary" size="sm">
+                    {results.length} of {universe.length} markets
+                  </Badge>
+                )}
+              </div>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {[...Array(8)].map((_, i) => (
+                    <Skeleton key={i} className="h-10" />
+                  ))}
+                </div>
+              ) : results.length === 0 ? (
+                <p className="py-8 text-center text-sm text-[var(--text-tertiary)]">No markets match this screen</p>
+              ) : (
+                <ResultsTable markets={results} nowMs={dataUpdatedAt} />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
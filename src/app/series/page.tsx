@@ -0,0 +1,378 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import {
+  Repeat,
+  Search,
+  ExternalLink,
+  CheckCircle2,
+  Clock,
+  WifiOff,
+} from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { Badge, Input, Skeleton } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { kalshi } from "@/lib/kalshi/client";
+import { MARKET_CATEGORIES } from "@/lib/kalshi/market-query";
+import type { Series, SeriesInstance } from "@/lib/kalshi/types";
+
+function formatDate(value: string): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// Category filter chip
+function CategoryChip({
+  label,
+  active,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "px-3 py-1.5 rounded-full text-xs font-medium border transition-colors",
+        active
+          ? "bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/30"
+          : "bg-[var(--surface-2)] text-[var(--text-tertiary)] border-[var(--border-default)] hover:text-[var(--text-secondary)]"
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Series row in the list column
+function SeriesListItem({
+  series,
+  active,
+  onClick,
+}: {
+  series: Series;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "w-full text-left p-3 rounded-lg border transition-colors",
+        active
+          ? "bg-[var(--accent)]/10 border-[var(--accent)]/30"
+          : "bg-[var(--surface-2)] border-[var(--border-default)] hover:bg-[var(--surface-3)]"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-[var(--text-primary)] truncate">
+          {series.title}
+        </span>
+        <Badge variant="secondary" size="sm" className="capitalize flex-shrink-0">
+          {series.frequency}
+        </Badge>
+      </div>
+      <p className="text-xs text-[var(--text-tertiary)] font-mono mt-1">
+        {series.ticker}
+      </p>
+    </button>
+  );
+}
+
+// Settlement history row for one instance of the series
+function InstanceRow({ instance }: { instance: SeriesInstance }) {
+  const winner = instance.winner;
+
+  return (
+    <motion.tr
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="border-b border-[var(--border-default)] last:border-0"
+    >
+      <td className="py-3 pr-4 text-xs text-[var(--text-tertiary)] tabular-nums whitespace-nowrap">
+        {formatDate(instance.close_time)}
+      </td>
+      <td className="py-3 pr-4">
+        <p className="text-sm text-[var(--text-primary)]">{instance.title}</p>
+        <p className="text-xs text-[var(--text-muted)] font-mono">
+          {instance.event_ticker}
+        </p>
+      </td>
+      <td className="py-3 pr-4 text-sm text-[var(--text-secondary)]">
+        {winner
+          ? winner.yes_sub_title || winner.expiration_value || winner.title
+          : "—"}
+      </td>
+      <td className="py-3 pr-4 text-xs text-[var(--text-tertiary)] tabular-nums">
+        {instance.markets.length}
+      </td>
+      <td className="py-3">
+        {instance.settled ? (
+          <Badge variant="success" size="sm">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Settled
+          </Badge>
+        ) : (
+          <Badge variant="info" size="sm">
+            <Clock className="w-3 h-3 mr-1" />
+            Open
+          </Badge>
+        )}
+      </td>
+    </motion.tr>
+  );
+}
+
+// Detail panel for the selected series
+function SeriesDetail({ ticker, listed }: { ticker: string; listed?: Series }) {
+  // Shared links may point at a series outside the current category
+  const { data: fetched } = useQuery({
+    queryKey: ["kalshi", "series-detail", ticker],
+    queryFn: () => kalshi.series.getSeries(ticker),
+    enabled: !listed,
+    staleTime: 10 * 60 * 1000,
+  });
+  const series = listed ?? fetched;
+
+  const {
+    data: instances,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["kalshi", "series-history", ticker],
+    queryFn: () => kalshi.getSeriesHistory(ticker),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const settledCount = instances?.filter((i) => i.settled).length ?? 0;
+
+  if (!series) {
+    return <Skeleton className="h-40 rounded-xl" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-bold text-[var(--text-primary)]">
+              {series.title}
+            </h2>
+            <p className="text-xs text-[var(--text-tertiary)] font-mono mt-1">
+              {series.ticker} · {series.category}
+            </p>
+          </div>
+          <Badge variant="default" className="capitalize">
+            {series.frequency}
+          </Badge>
+        </div>
+
+        {series.settlement_sources && series.settlement_sources.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-tertiary)]">
+            <span>Settles on:</span>
+            {series.settlement_sources.map((source) => (
+              <a
+                key={source.url}
+                href={source.url}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-[var(--accent)] hover:underline"
+              >
+                {source.name}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {instances && (
+          <p className="text-xs text-[var(--text-secondary)]">
+            {instances.length} instances · {settledCount} settled
+          </p>
+        )}
+      </div>
+
+      <div className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+        <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-4">
+          Settlement History
+        </h3>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-[var(--down)]">
+            Unable to load series history.
+          </p>
+        ) : !instances || instances.length === 0 ? (
+          <p className="text-sm text-[var(--text-tertiary)]">
+            No instances found for this series.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-xs text-[var(--text-muted)] uppercase tracking-wider border-b border-[var(--border-default)]">
+                  <th className="pb-2 pr-4 font-medium">Close</th>
+                  <th className="pb-2 pr-4 font-medium">Event</th>
+                  <th className="pb-2 pr-4 font-medium">Outcome</th>
+                  <th className="pb-2 pr-4 font-medium">Markets</th>
+                  <th className="pb-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {instances.map((instance) => (
+                  <InstanceRow key={instance.event_ticker} instance={instance} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SeriesBrowser() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const category = searchParams.get("category") ?? MARKET_CATEGORIES[0];
+  const selectedTicker = searchParams.get("ticker");
+  const [query, setQuery] = React.useState("");
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    router.replace(`/series/?${params}`);
+  };
+
+  const {
+    data: seriesList,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["kalshi", "series", category],
+    queryFn: () => kalshi.series.listSeries({ category }),
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const filteredSeries = React.useMemo(() => {
+    if (!seriesList) return [];
+    const lowerQuery = query.toLowerCase();
+    return seriesList
+      .filter(
+        (s) =>
+          !lowerQuery ||
+          s.title.toLowerCase().includes(lowerQuery) ||
+          s.ticker.toLowerCase().includes(lowerQuery)
+      )
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [seriesList, query]);
+
+  const selectedSeries = seriesList?.find((s) => s.ticker === selectedTicker);
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+          <Repeat className="w-6 h-6 text-[var(--accent)]" />
+          Series
+        </h1>
+        <p className="text-sm text-[var(--text-secondary)] mt-1">
+          Recurring markets grouped by series, with settlement history
+        </p>
+      </div>
+
+      {/* Category filters */}
+      <div className="flex flex-wrap gap-2">
+        {MARKET_CATEGORIES.map((c) => (
+          <CategoryChip
+            key={c}
+            label={c}
+            active={c === category}
+            onClick={() => updateParams({ category: c, ticker: null })}
+          />
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+          <WifiOff className="w-5 h-5 text-[var(--down)]" />
+          <p className="text-sm text-[var(--text-primary)]">
+            Unable to load series from Kalshi API
+          </p>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Series list */}
+        <div className="space-y-3">
+          <Input
+            placeholder="Search series..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            icon={<Search className="w-4 h-4" />}
+          />
+
+          <div className="space-y-2 max-h-[70vh] overflow-y-auto pr-1">
+            {isLoading
+              ? [...Array(8)].map((_, i) => (
+                  <Skeleton key={i} className="h-16 rounded-lg" />
+                ))
+              : filteredSeries.map((s) => (
+                  <SeriesListItem
+                    key={s.ticker}
+                    series={s}
+                    active={s.ticker === selectedTicker}
+                    onClick={() => updateParams({ ticker: s.ticker })}
+                  />
+                ))}
+            {!isLoading && filteredSeries.length === 0 && (
+              <p className="py-8 text-center text-sm text-[var(--text-tertiary)]">
+                No series found
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Selected series */}
+        <div className="lg:col-span-2">
+          {selectedTicker ? (
+            <SeriesDetail ticker={selectedTicker} listed={selectedSeries} />
+          ) : (
+            <div className="h-64 rounded-xl border border-dashed border-[var(--border-default)] flex items-center justify-center text-sm text-[var(--text-tertiary)]">
+              Select a series to see its settlement history
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SeriesPage() {
+  return (
+    <DashboardLayout>
+      {/* useSearchParams needs a Suspense boundary for static export */}
+      <React.Suspense fallback={<Skeleton className="h-96 rounded-xl" />}>
+        <SeriesBrowser />
+      </React.Suspense>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import * as React from "react";
+import { Settings, SlidersHorizontal, RotateCcw, Brain, Newspaper, Plus, X } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { Button, Input } from "@/components/ui";
+import {
+  RANKING_METRICS,
+  RANKER_IDS,
+  getRanker,
+  type RankerId,
+  type RankingMetric,
+} from "@/lib/kalshi/ranking";
+import { useRankingSettings } from "@/hooks/use-ranking-settings";
+import { useAIAnalyses } from "@/hooks/use-ai-analyses";
+import { useNewsFeeds } from "@/hooks/use-news-feeds";
+import { useHydratedStores } from "@/hooks/use-hydrated-stores";
+
+const selectClass =
+  "h-8 rounded-lg bg-[var(--surface-3)] border border-[var(--border-default)] px-2 text-xs text-[var(--text-primary)]";
+
+// Settings section card
+function Section({
+  icon: Icon,
+  title,
+  description,
+  action,
+  children,
+}: {
+  icon: React.ElementType;
+  title: string;
+  description: string;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-[var(--text-primary)] flex items-center gap-2">
+            <Icon className="w-4 h-4 text-[var(--accent)]" />
+            {title}
+          </h2>
+          <p className="text-xs text-[var(--text-tertiary)] mt-1">{description}</p>
+        </div>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+// Labelled settings row
+function SettingRow({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4 py-2 border-t border-[var(--border-default)] first:border-t-0">
+      <div>
+        <p className="text-sm text-[var(--text-primary)]">{label}</p>
+        {hint && <p className="text-xs text-[var(--text-muted)]">{hint}</p>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function StrategyPicker({ value, onChange }: { value: RankerId; onChange: (id: RankerId) => void }) {
+  return (
+    <select className={selectClass} value={value} onChange={(e) => onChange(e.target.value as RankerId)}>
+      {RANKER_IDS.map((id) => (
+        <option key={id} value={id}>
+          {getRanker(id).name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Add and remove news feed URLs
+function FeedList() {
+  const feeds = useNewsFeeds((state) => state.feeds);
+  const addFeed = useNewsFeeds((state) => state.addFeed);
+  const removeFeed = useNewsFeeds((state) => state.removeFeed);
+  const [draft, setDraft] = React.useState("");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = draft.trim();
+    if (!url) return;
+    addFeed(url);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-3">
+      {feeds.length > 0 && (
+        <ul className="space-y-1">
+          {feeds.map((url) => (
+            <li
+              key={url}
+              className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-[var(--surface-3)] text-xs font-mono text-[var(--text-secondary)]"
+            >
+              <span className="truncate">{url}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeFeed(url)}>
+                <X className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={submit} className="flex gap-2">
+        <Input
+          type="url"
+          className="h-8 text-xs font-mono"
+          placeholder="https://example.com/feed.xml"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!draft.trim()}>
+          <Plus className="w-4 h-4" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const {
+    featuredStrategy,
+    hotStrategy,
+    weights,
+    setFeaturedStrategy,
+    setHotStrategy,
+    eligibility,
+    setWeight,
+    setEligibility,
+    resetCustomStrategy,
+  } = useRankingSettings();
+
+  const llmUrl = useAIAnalyses((state) => state.llmUrl);
+  const setLlmUrl = useAIAnalyses((state) => state.setLlmUrl);
+
+  useHydratedStores(useRankingSettings, useAIAnalyses, useNewsFeeds);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-3xl">
+        {/* Page header */}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+            <Settings className="w-6 h-6 text-[var(--accent)]" />
+            Settings
+          </h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Preferences are saved in this browser.
+          </p>
+        </div>
+
+        <Section
+          icon={SlidersHorizontal}
+          title="Dashboard ranking"
+          description="Choose how the Featured and Hot sections pick their markets."
+        >
+          <div>
+            <SettingRow label="Featured market" hint={getRanker(featuredStrategy, weights, eligibility).description}>
+              <StrategyPicker value={featuredStrategy} onChange={setFeaturedStrategy} />
+            </SettingRow>
+            <SettingRow label="Hot markets" hint={getRanker(hotStrategy, weights, eligibility).description}>
+              <StrategyPicker value={hotStrategy} onChange={setHotStrategy} />
+            </SettingRow>
+          </div>
+        </Section>
+
+        <Section
+          icon={SlidersHorizontal}
+          title="Custom strategy"
+          description="Each metric scores roughly 0-5. A market's score is the sum of metric × weight; set a weight to 0 to ignore it. Markets that miss the limits below are not ranked."
+          action={
+            <Button variant="outline" size="sm" onClick={resetCustomStrategy}>
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          }
+        >
+          <div>
+            {(Object.keys(RANKING_METRICS) as RankingMetric[]).map((metric) => (
+              <SettingRow key={metric} label={RANKING_METRICS[metric].label}>
+                <Input
+                  type="number"
+                  step={0.1}
+                  className="w-24 h-8 text-xs text-right"
+                  value={weights[metric] ?? 0}
+                  onChange={(e) => {
+                    const weight = Number(e.target.value);
+                    if (Number.isFinite(weight)) setWeight(metric, weight);
+                  }}
+                />
+              </SettingRow>
+            ))}
+            <SettingRow label="Skip inactive markets" hint="No 24h volume and no resting liquidity">
+              <input
+                type="checkbox"
+                className="w-4 h-4 accent-[var(--accent)]"
+                checked={eligibility.requireActivity}
+                onChange={(e) => setEligibility({ requireActivity: e.target.checked })}
+              />
+            </SettingRow>
+            <SettingRow label="Minimum 24h volume" hint="Contracts">
+              <Input
+                type="number"
+                min={0}
+                className="w-24 h-8 text-xs text-right"
+                value={eligibility.minVolume24h}
+                onChange={(e) => {
+                  const minVolume24h = Number(e.target.value);
+                  if (Number.isFinite(minVolume24h)) setEligibility({ minVolume24h });
+                }}
+              />
+            </SettingRow>
+            <SettingRow label="Minimum liquidity" hint="Cents of resting orders">
+              <Input
+                type="number"
+                min={0}
+                className="w-24 h-8 text-xs text-right"
+                value={eligibility.minLiquidity}
+                onChange={(e) => {
+                  const minLiquidity = Number(e.target.value);
+                  if (Number.isFinite(minLiquidity)) setEligibility({ minLiquidity });
+                }}
+              />
+            </SettingRow>
+          </div>
+        </Section>
+
+        <Section
+          icon={Brain}
+          title="Truth Engine"
+          description="Probability models run on each market page. The trade-flow and series base-rate models always run."
+        >
+          <SettingRow
+            label="LLM endpoint"
+            hint="POST endpoint that answers with { probability, confidence, reasoning, sources }"
+          >
+            <Input
+              key={llmUrl}
+              type="url"
+              className="w-72 h-8 text-xs font-mono"
+              placeholder="https://…"
+              defaultValue={llmUrl}
+              onBlur={(e) => setLlmUrl(e.target.value.trim())}
+            />
+          </SettingRow>
+        </Section>
+
+        <Section
+          icon={Newspaper}
+          title="News feeds"
+          description="RSS or Atom feeds matched against each market's headlines. They're fetched through the site's API proxy, so any public feed works."
+        >
+          <FeedList />
+        </Section>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Users, WifiOff } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { Badge, Skeleton } from "@/components/ui";
+import { cn, formatCompact, formatRelativeTime, marketPath } from "@/lib/utils";
+import { WHALE_SIGNAL_KINDS, type WhaleSignalKind } from "@/lib/kalshi/smart-money";
+import { useSmartMoney } from "@/hooks/use-smart-money";
+
+// Filter chip
+function Chip({
+  label,
+  active,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "px-3 py-1.5 rounded-full text-xs font-medium border transition-colors",
+        active
+          ? "bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/30"
+          : "bg-[var(--surface-2)] text-[var(--text-tertiary)] border-[var(--border-default)] hover:text-[var(--text-secondary)]"
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Headline stat
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)]">
+      <p className="text-xs text-[var(--text-tertiary)]">{label}</p>
+      <p className="text-xl font-bold text-[var(--text-primary)] tabular-nums mt-1">{value}</p>
+      {hint && <p className="text-xs text-[var(--text-muted)] mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+export default function SmartMoneyPage() {
+  const { signals, marketsByTicker, isLoading, error } = useSmartMoney();
+  const [kind, setKind] = React.useState<WhaleSignalKind | null>(null);
+  const [side, setSide] = React.useState<"yes" | "no" | null>(null);
+
+  const filtered = signals.filter((s) => (!kind || s.kind === kind) && (!side || s.side === side));
+
+  const yesNotional = signals.filter((s) => s.side === "yes").reduce((sum, s) => sum + s.notional, 0);
+  const noNotional = signals.filter((s) => s.side === "no").reduce((sum, s) => sum + s.notional, 0);
+  const totalNotional = yesNotional + noNotional;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Page header */}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+            <Users className="w-6 h-6 text-[var(--up)]" />
+            Smart Money
+          </h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Outsized prints, aggressive same-side clusters and open interest jumps from the public Kalshi tape.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-xl bg-[var(--down-muted)] border border-[var(--down)]/30 flex items-center gap-3">
+            <WifiOff className="w-5 h-5 text-[var(--down)]" />
+            <p className="text-sm text-[var(--text-primary)]">
+              Unable to load trades from Kalshi API
+            </p>
+          </div>
+        )}
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {isLoading ? (
+            [...Array(4)].map((_, i) => <Skeleton key={i} className="h-24 rounded-xl" />)
+          ) : (
+            <>
+              <Stat label="Signals" value={String(signals.length)} hint="On the latest 1,000 trades" />
+              <Stat label="Whale notional" value={`$${formatCompact(totalNotional)}`} />
+              <Stat label="Into yes" value={`$${formatCompact(yesNotional)}`} />
+              <Stat
+                label="Yes share"
+                value={totalNotional > 0 ? `${Math.round((yesNotional / totalNotional) * 100)}%` : "—"}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Chip label="All signals" active={!kind} onClick={() => setKind(null)} />
+          {(Object.keys(WHALE_SIGNAL_KINDS) as WhaleSignalKind[]).map((k) => (
+            <Chip key={k} label={WHALE_SIGNAL_KINDS[k]} active={kind === k} onClick={() => setKind(k)} />
+          ))}
+          <span className="w-px h-5 bg-[var(--border-default)] mx-1" />
+          <Chip label="Both sides" active={!side} onClick={() => setSide(null)} />
+          <Chip label="Yes" active={side === "yes"} onClick={() => setSide("yes")} />
+          <Chip label="No" active={side === "no"} onClick={() => setSide("no")} />
+        </div>
+
+        {/* Signals */}
+        <div className="rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] overflow-x-auto">
+          {isLoading ? (
+            <div className="p-4 space-y-2">
+              {[...Array(8)].map((_, i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="py-12 text-center text-sm text-[var(--text-tertiary)]">
+              No whale activity matches these filters
+            </p>
+          ) : (
+            <table className="w-full text-sm tabular-nums">
+              <thead>
+                <tr className="text-xs text-[var(--text-muted)] uppercase tracking-wider">
+                  <th className="px-4 py-3 text-left font-medium">Market</th>
+                  <th className="px-4 py-3 text-left font-medium">Signal</th>
+                  <th className="px-4 py-3 text-left font-medium">Side</th>
+                  <th className="px-4 py-3 text-right font-medium">Contracts</th>
+                  <th className="px-4 py-3 text-right font-medium">Price</th>
+                  <th className="px-4 py-3 text-right font-medium">Notional</th>
+                  <th className="px-4 py-3 text-right font-medium">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((signal) => {
+                  const market = marketsByTicker.get(signal.marketId);
+                  return (
+                    <tr key={signal.id} className="border-t border-[var(--border-default)]">
+                      <td className="px-4 py-2 max-w-xs">
+                        <Link
+                          href={marketPath(signal.marketId)}
+                          className="block truncate text-[var(--text-primary)] hover:text-[var(--accent)]"
+                        >
+                          {market?.title ?? signal.marketId}
+                        </Link>
+                        <span className="text-xs text-[var(--text-muted)] font-mono">{signal.marketId}</span>
+                      </td>
+                      <td className="px-4 py-2">
+                        <p className="text-[var(--text-secondary)]">{WHALE_SIGNAL_KINDS[signal.kind]}</p>
+                        <p className="text-xs text-[var(--text-muted)]">{signal.detail}</p>
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant={signal.side === "yes" ? "success" : "destructive"} size="sm">
+                          BUY {signal.side.toUpperCase()}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-[var(--text-primary)]">
+                        {signal.size.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-[var(--text-secondary)]">
+                        {signal.price}¢
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-[var(--text-primary)]">
+                        ${formatCompact(signal.notional)}
+                      </td>
+                      <td className="px-4 py-2 text-right text-xs text-[var(--text-tertiary)]">
+                        {formatRelativeTime(signal.timestamp)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
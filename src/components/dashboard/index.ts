@@ -2,3 +2,4 @@ export { Sidebar } from "./sidebar";
 export { GlobalTicker } from "./ticker";
 export { CommandPalette } from "./command-palette";
 export { DashboardLayout } from "./layout";
+export { InsightCard } from "./insight-card";
@@ -0,0 +1,80 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Brain, Sparkles, ArrowUpRight, ShieldAlert, Activity } from "lucide-react";
+import { Badge } from "@/components/ui";
+import { cn, formatRelativeTime, marketPath } from "@/lib/utils";
+import { INSIGHT_KINDS, type Insight } from "@/lib/kalshi/insights";
+
+const KIND_ICONS = {
+  mispricing: Brain,
+  "resolution-risk": ShieldAlert,
+  "unusual-flow": Activity,
+} satisfies Record<Insight["kind"], React.ElementType>;
+
+interface InsightCardProps {
+  insight: Insight;
+  timestamp?: string; // Defaults to when the insight was created
+  className?: string;
+}
+
+/**
+ * One feed item, linking through to its market
+ */
+export function InsightCard({ insight, timestamp, className }: InsightCardProps) {
+  const Icon = KIND_ICONS[insight.kind];
+
+  return (
+    <motion.div
+      className={cn(
+        "p-4 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3",
+        className
+      )}
+      whileHover={{ scale: 1.01 }}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-8 h-8 flex-shrink-0 rounded-lg bg-[var(--accent)]/20 flex items-center justify-center">
+            <Icon className="w-4 h-4 text-[var(--accent)]" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-[var(--text-primary)]">{insight.title}</p>
+            <p className="text-xs text-[var(--text-tertiary)] truncate">{insight.marketTitle}</p>
+          </div>
+        </div>
+        <Badge
+          variant={
+            insight.direction === "bullish"
+              ? "success"
+              : insight.direction === "bearish"
+                ? "destructive"
+                : "secondary"
+          }
+          size="sm"
+        >
+          {insight.direction === "bullish" ? "Bullish" : insight.direction === "bearish" ? "Bearish" : "Neutral"}
+        </Badge>
+      </div>
+
+      <p className="text-xs text-[var(--text-secondary)] leading-relaxed">{insight.description}</p>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1 text-xs text-[var(--text-tertiary)]">
+          <Sparkles className="w-3 h-3 text-[var(--accent)]" />
+          <span>
+            {INSIGHT_KINDS[insight.kind]} · {insight.confidence}% · {formatRelativeTime(timestamp ?? insight.createdAt)}
+          </span>
+        </div>
+        <Link
+          href={marketPath(insight.ticker)}
+          className="inline-flex items-center gap-1 h-7 px-2 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] transition-colors"
+        >
+          View Details
+          <ArrowUpRight className="w-3 h-3" />
+        </Link>
+      </div>
+    </motion.div>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 import { Sidebar } from "./sidebar";
 import { GlobalTicker } from "./ticker";
 import { CommandPalette } from "./command-palette";
+import { OrderTicket } from "@/components/market/order-ticket";
 import { Wallet } from "lucide-react";
 
 // Placeholder wallet button (Phase 2 will add real wallet connection)
@@ -76,6 +77,9 @@ export function DashboardLayout({ children, showTicker = true }: DashboardLayout
           </div>
         </footer>
       </div>
+
+      {/* Order ticket drawer, opened from any market card */}
+      <OrderTicket />
     </div>
   );
 }
@@ -19,6 +19,7 @@ import {
   X,
   ChevronLeft,
   Sparkles,
+  Repeat,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -33,6 +34,7 @@ interface NavItem {
 const mainNavItems: NavItem[] = [
   { label: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { label: "Markets", href: "/markets", icon: TrendingUp },
+  { label: "Series", href: "/series", icon: Repeat },
   { label: "Screener", href: "/screener", icon: Search },
   { label: "AI Insights", href: "/insights", icon: Brain, isNew: true },
   { label: "Smart Money", href: "/smart-money", icon: Users },
@@ -0,0 +1,156 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  createChart,
+  ColorType,
+  LineSeries,
+  type UTCTimestamp,
+} from "lightweight-charts";
+import { Skeleton } from "@/components/ui";
+import { cn, themeColor } from "@/lib/utils";
+import { marketsApi } from "@/lib/kalshi/client";
+import type { CandlestickInterval, Market } from "@/lib/kalshi/types";
+
+type OutcomeRange = "1d" | "1w" | "1m";
+
+const RANGES: Record<OutcomeRange, { label: string; interval: CandlestickInterval; seconds: number }> = {
+  "1d": { label: "1D", interval: 60, seconds: 24 * 60 * 60 },
+  "1w": { label: "1W", interval: 60, seconds: 7 * 24 * 60 * 60 },
+  "1m": { label: "1M", interval: 1440, seconds: 30 * 24 * 60 * 60 },
+};
+
+// Beyond this many lines the chart is unreadable, the rest stay in the table
+const MAX_OUTCOME_LINES = 8;
+
+const LINE_COLORS: [string, string][] = [
+  ["--accent", "#8B5CF6"],
+  ["--up", "#34D399"],
+  ["--info", "#38BDF8"],
+  ["--warning", "#FBBF24"],
+  ["--hot", "#F97316"],
+  ["--down", "#FB7185"],
+  ["--text-secondary", "#A1A1AA"],
+  ["--text-muted", "#52525B"],
+];
+
+interface EventOutcomesChartProps {
+  markets: Market[]; // Most likely first
+  className?: string;
+}
+
+function outcomeLabel(market: Market): string {
+  return market.yes_sub_title || market.subtitle || market.ticker;
+}
+
+async function loadOutcomeLines(markets: Market[], range: OutcomeRange) {
+  const { interval, seconds } = RANGES[range];
+  const endTs = Math.floor(Date.now() / 1000);
+  const histories = await marketsApi.getBatchCandlesticks(
+    markets.map((m) => m.ticker),
+    { periodInterval: interval, startTs: endTs - seconds, endTs }
+  );
+
+  return markets.map((market, i) => ({
+    label: outcomeLabel(market),
+    color: LINE_COLORS[i % LINE_COLORS.length],
+    candles: histories.find((h) => h.ticker === market.ticker)?.candlesticks ?? [],
+  }));
+}
+
+/**
+ * Yes price of every outcome in an event on one 0-100¢ chart
+ */
+export function EventOutcomesChart({ markets, className }: EventOutcomesChartProps) {
+  const [range, setRange] = React.useState<OutcomeRange>("1w");
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  const shown = markets.slice(0, MAX_OUTCOME_LINES);
+  const tickers = shown.map((m) => m.ticker);
+
+  // Labels travel with the histories so the chart only rebuilds on new data
+  const { data: lines, isLoading } = useQuery({
+    queryKey: ["kalshi", "event-chart", tickers.join(","), range],
+    queryFn: () => loadOutcomeLines(shown, range),
+    enabled: tickers.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !lines) return;
+
+    const grid = themeColor("--border-default", "#27272A");
+    const chart = createChart(container, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: "transparent" },
+        textColor: themeColor("--text-tertiary", "#71717A"),
+        attributionLogo: false,
+      },
+      grid: { vertLines: { color: grid }, horzLines: { color: grid } },
+      rightPriceScale: { borderColor: grid },
+      timeScale: { borderColor: grid, timeVisible: true },
+      localization: { priceFormatter: (price: number) => `${price.toFixed(0)}¢` },
+    });
+
+    for (const line of lines) {
+      const series = chart.addSeries(LineSeries, {
+        color: themeColor(...line.color),
+        lineWidth: 2,
+        title: line.label,
+      });
+      series.setData(
+        line.candles.map((c) => ({
+          time: Math.floor(new Date(c.timestamp).getTime() / 1000) as UTCTimestamp,
+          value: Math.round(c.close * 10000) / 100,
+        }))
+      );
+    }
+
+    chart.timeScale().fitContent();
+
+    return () => chart.remove();
+  }, [lines]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {shown.map((market, i) => (
+            <span key={market.ticker} className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)]">
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ background: `var(${LINE_COLORS[i % LINE_COLORS.length][0]})` }}
+              />
+              {outcomeLabel(market)}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1 flex-shrink-0">
+          {(Object.keys(RANGES) as OutcomeRange[]).map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={cn(
+                "px-2 py-1 rounded-md text-xs font-medium transition-colors",
+                range === r
+                  ? "bg-[var(--accent)]/15 text-[var(--accent)]"
+                  : "text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+              )}
+            >
+              {RANGES[r].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-72 rounded-lg" />
+      ) : (
+        <div ref={containerRef} className="h-72" />
+      )}
+    </div>
+  );
+}
@@ -1 +1,9 @@
 export { MarketCard, FeaturedMarketCard } from "./market-card";
+export { OrderTicket } from "./order-ticket";
+export { OrderBookLadder } from "./order-book-ladder";
+export { MarketPriceChart } from "./market-price-chart";
+export { ScoreBreakdown } from "./score-breakdown";
+export { EventOutcomesChart } from "./event-outcomes-chart";
+export { TruthEnginePanel } from "./truth-engine-panel";
+export { ResolutionRiskBadge, ResolutionRiskPanel } from "./resolution-risk";
+export { NewsTimeline } from "./news-timeline";
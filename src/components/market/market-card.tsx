@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   TrendingUp,
@@ -10,12 +11,17 @@ import {
   Zap,
   ChevronRight
 } from "lucide-react";
-import { cn, formatCompact, formatCountdown } from "@/lib/utils";
+import { cn, formatCompact, formatCountdown, marketPath } from "@/lib/utils";
+import { Skeleton } from "@/components/ui";
+import { ResolutionRiskBadge } from "./resolution-risk";
+import { useSparkline } from "@/hooks/use-sparkline";
+import { useOrderTicket } from "@/hooks/use-order-ticket";
+import { analyzeResolutionRisk } from "@/lib/kalshi/resolution-risk";
 import type { Market } from "@/lib/kalshi/types";
 
 interface MarketCardProps {
   market: Market;
-  onClick?: () => void;
+  onClick?: () => void; // Defaults to opening the market's detail page
   className?: string;
   featured?: boolean;
 }
@@ -130,6 +136,20 @@ function MiniSparkline({
   );
 }
 
+// Placeholder shown when a market has no recent trades
+function SparklineEmpty({ className }: { className?: string }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-center rounded-md border border-dashed border-[var(--border-default)] text-[10px] text-[var(--text-muted)]",
+        className
+      )}
+    >
+      No trades
+    </div>
+  );
+}
+
 // Probability bar component
 function ProbabilityBar({
   yesPercent,
@@ -164,7 +184,9 @@ export function MarketCard({
   className,
   featured = false
 }: MarketCardProps) {
+  const router = useRouter();
   const [isHovered, setIsHovered] = React.useState(false);
+  const openTicket = useOrderTicket((state) => state.open);
 
   // Parse prices
   const yesPrice = parseFloat(market.outcomePrices?.[0] || "0");
@@ -177,13 +199,13 @@ export function MarketCard({
   const isUp = change24h > 0;
   const isDown = change24h < 0;
 
-  // Generate mock sparkline data (in production, this would be real price history)
-  const sparklineData = React.useMemo(() => {
-    const base = yesPrice;
-    return Array.from({ length: 12 }, (_, i) =>
-      base + (Math.random() - 0.5) * 0.1
-    );
-  }, [yesPrice]);
+  // Oracle Risk Radar score from the published rules
+  const risk = React.useMemo(() => analyzeResolutionRisk(market), [market]);
+
+  // Last 24h of hourly closes, batched with the other visible cards
+  const { data: sparklineData, isLoading: isLoadingHistory } = useSparkline(
+    market.ticker
+  );
 
   return (
     <motion.div
@@ -197,7 +219,7 @@ export function MarketCard({
       )}
       onHoverStart={() => setIsHovered(true)}
       onHoverEnd={() => setIsHovered(false)}
-      onClick={onClick}
+      onClick={onClick ?? (() => router.push(marketPath(market.ticker)))}
       whileHover={{ scale: 1.01 }}
       whileTap={{ scale: 0.99 }}
       layout
@@ -227,17 +249,22 @@ export function MarketCard({
         {/* Header */}
         <div className="flex items-start justify-between gap-3">
           <div className="flex-1 min-w-0">
-            {/* Hot badge for trending markets */}
-            {market.volume_24h && market.volume_24h > 100000 && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.8 }}
-                animate={{ opacity: 1, scale: 1 }}
-                className="inline-flex items-center gap-1 px-2 py-0.5 mb-2 rounded-full text-xs font-medium bg-[var(--hot-muted)] text-[var(--hot)] border border-[var(--hot)]/20"
-              >
-                <Zap className="w-3 h-3" />
-                <span>Hot</span>
-              </motion.div>
-            )}
+            <div className="flex flex-wrap items-center gap-1.5 empty:hidden mb-2">
+              {/* Hot badge for trending markets */}
+              {market.volume_24h && market.volume_24h > 100000 && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-[var(--hot-muted)] text-[var(--hot)] border border-[var(--hot)]/20"
+                >
+                  <Zap className="w-3 h-3" />
+                  <span>Hot</span>
+                </motion.div>
+              )}
+
+              {/* Only markets worth a second look at the rules get a risk badge */}
+              {risk.level !== "low" && <ResolutionRiskBadge risk={risk} />}
+            </div>
 
             {/* Market question */}
             <h3 className="text-sm md:text-base font-semibold text-[var(--text-primary)] line-clamp-2 group-hover:text-white transition-colors">
@@ -247,10 +274,16 @@ export function MarketCard({
 
           {/* Mini chart */}
           <div className="hidden sm:block flex-shrink-0">
-            <MiniSparkline
-              data={sparklineData}
-              color={isUp ? "var(--up)" : isDown ? "var(--down)" : "var(--text-tertiary)"}
-            />
+            {isLoadingHistory ? (
+              <Skeleton className="w-20 h-8 rounded-md" />
+            ) : sparklineData && sparklineData.length > 1 ? (
+              <MiniSparkline
+                data={sparklineData}
+                color={isUp ? "var(--up)" : isDown ? "var(--down)" : "var(--text-tertiary)"}
+              />
+            ) : (
+              <SparklineEmpty className="w-20 h-8" />
+            )}
           </div>
         </div>
 
@@ -270,6 +303,10 @@ export function MarketCard({
             )}
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
+            onClick={(e) => {
+              e.stopPropagation();
+              openTicket(market, "yes");
+            }}
           >
             <span className="text-xs text-[var(--up)]/70">Yes</span>
             <AnimatedPrice value={yesPrice} className="text-base md:text-lg font-bold" />
@@ -287,6 +324,10 @@ export function MarketCard({
             )}
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
+            onClick={(e) => {
+              e.stopPropagation();
+              openTicket(market, "no");
+            }}
           >
             <span className="text-xs text-[var(--down)]/70">No</span>
             <AnimatedPrice value={noPrice} className="text-base md:text-lg font-bold" />
@@ -349,16 +390,12 @@ export function FeaturedMarketCard({
   onClick,
   className
 }: MarketCardProps) {
+  const router = useRouter();
   const yesPrice = parseFloat(market.outcomePrices?.[0] || "0");
-  const noPrice = parseFloat(market.outcomePrices?.[1] || "0");
 
-  // Generate mock sparkline data
-  const sparklineData = React.useMemo(() => {
-    const base = yesPrice;
-    return Array.from({ length: 24 }, (_, i) =>
-      base + (Math.random() - 0.5) * 0.15
-    );
-  }, [yesPrice]);
+  const { data: sparklineData, isLoading: isLoadingHistory } = useSparkline(
+    market.ticker
+  );
 
   const isUp = (market.change24h || 0) > 0;
 
@@ -371,7 +408,7 @@ export function FeaturedMarketCard({
         "p-5 md:p-6",
         className
       )}
-      onClick={onClick}
+      onClick={onClick ?? (() => router.push(marketPath(market.ticker)))}
       whileHover={{ scale: 1.005 }}
       whileTap={{ scale: 0.995 }}
     >
@@ -406,33 +443,39 @@ export function FeaturedMarketCard({
 
         {/* Large sparkline */}
         <div className="py-4">
-          <svg viewBox="0 0 300 80" className="w-full h-20">
-            <defs>
-              <linearGradient id="featuredGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                <stop offset="0%" stopColor={isUp ? "var(--up)" : "var(--down)"} stopOpacity="0.4" />
-                <stop offset="100%" stopColor={isUp ? "var(--up)" : "var(--down)"} stopOpacity="0" />
-              </linearGradient>
-            </defs>
-            {/* Area fill */}
-            <polygon
-              points={`0,80 ${sparklineData.map((v, i) =>
-                `${(i / (sparklineData.length - 1)) * 300},${80 - v * 80}`
-              ).join(" ")} 300,80`}
-              fill="url(#featuredGradient)"
-            />
-            {/* Line */}
-            <polyline
-              points={sparklineData.map((v, i) =>
-                `${(i / (sparklineData.length - 1)) * 300},${80 - v * 80}`
-              ).join(" ")}
-              fill="none"
-              stroke={isUp ? "var(--up)" : "var(--down)"}
-              strokeWidth="2.5"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              style={{ filter: `drop-shadow(0 0 8px ${isUp ? "var(--glow-up)" : "var(--glow-down)"})` }}
-            />
-          </svg>
+          {isLoadingHistory ? (
+            <Skeleton className="w-full h-20" />
+          ) : !sparklineData || sparklineData.length < 2 ? (
+            <SparklineEmpty className="w-full h-20 text-xs" />
+          ) : (
+            <svg viewBox="0 0 300 80" className="w-full h-20">
+              <defs>
+                <linearGradient id="featuredGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+                  <stop offset="0%" stopColor={isUp ? "var(--up)" : "var(--down)"} stopOpacity="0.4" />
+                  <stop offset="100%" stopColor={isUp ? "var(--up)" : "var(--down)"} stopOpacity="0" />
+                </linearGradient>
+              </defs>
+              {/* Area fill */}
+              <polygon
+                points={`0,80 ${sparklineData.map((v, i) =>
+                  `${(i / (sparklineData.length - 1)) * 300},${80 - v * 80}`
+                ).join(" ")} 300,80`}
+                fill="url(#featuredGradient)"
+              />
+              {/* Line */}
+              <polyline
+                points={sparklineData.map((v, i) =>
+                  `${(i / (sparklineData.length - 1)) * 300},${80 - v * 80}`
+                ).join(" ")}
+                fill="none"
+                stroke={isUp ? "var(--up)" : "var(--down)"}
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                style={{ filter: `drop-shadow(0 0 8px ${isUp ? "var(--glow-up)" : "var(--glow-down)"})` }}
+              />
+            </svg>
+          )}
         </div>
 
         {/* Price display */}
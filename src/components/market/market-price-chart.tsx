@@ -0,0 +1,374 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  createChart,
+  createSeriesMarkers,
+  CandlestickSeries,
+  ColorType,
+  HistogramSeries,
+  LineSeries,
+  LineStyle,
+  type IChartApi,
+  type ISeriesApi,
+  type ISeriesMarkersPluginApi,
+  type SeriesMarker,
+  type Time,
+  type UTCTimestamp,
+} from "lightweight-charts";
+import { CandlestickChart, LineChart, X } from "lucide-react";
+import { Input, Skeleton } from "@/components/ui";
+import { cn, themeColor } from "@/lib/utils";
+import { marketsApi, portfolioApi } from "@/lib/kalshi/client";
+import { getMarketStream } from "@/lib/kalshi/stream";
+import { applyTradeToCandles } from "@/lib/kalshi/candles";
+import type {
+  Candlestick,
+  CandlestickInterval,
+  Market,
+  TradeUpdate,
+} from "@/lib/kalshi/types";
+
+type ChartRange = "1h" | "1d" | "1w" | "all";
+type ChartMode = "candles" | "line";
+
+const RANGES: Record<ChartRange, { label: string; interval: CandlestickInterval; seconds?: number }> = {
+  "1h": { label: "1H", interval: 1, seconds: 60 * 60 },
+  "1d": { label: "1D", interval: 1, seconds: 24 * 60 * 60 },
+  "1w": { label: "1W", interval: 60, seconds: 7 * 24 * 60 * 60 },
+  all: { label: "All", interval: 1440 }, // From the market's open time
+};
+
+interface MarketPriceChartProps {
+  market: Market;
+  className?: string;
+}
+
+interface ChartSeries {
+  main: ISeriesApi<"Candlestick"> | ISeriesApi<"Line">;
+  volume: ISeriesApi<"Histogram">;
+  bid: ISeriesApi<"Line">;
+  ask: ISeriesApi<"Line">;
+  compare: ISeriesApi<"Line"> | null;
+  markers: ISeriesMarkersPluginApi<Time>;
+}
+
+// Chart times are the candle's period end in Unix seconds
+function toTime(timestamp: string | number): UTCTimestamp {
+  const seconds =
+    typeof timestamp === "number" ? timestamp : new Date(timestamp).getTime() / 1000;
+  return Math.floor(seconds) as UTCTimestamp;
+}
+
+// Markers must sit on a bar, so snap a timestamp to the end of its period
+function toBarTime(timestamp: string, interval: CandlestickInterval): UTCTimestamp {
+  const periodSec = interval * 60;
+  return ((Math.floor(toTime(timestamp) / periodSec) + 1) * periodSec) as UTCTimestamp;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 10000) / 100;
+}
+
+function loadCandles(ticker: string, range: ChartRange, openTime?: string) {
+  const { interval, seconds } = RANGES[range];
+  const endTs = Math.floor(Date.now() / 1000);
+  const startTs = seconds
+    ? endTs - seconds
+    : Math.floor(new Date(openTime ?? Date.now() - 365 * 24 * 60 * 60 * 1000).getTime() / 1000);
+
+  return marketsApi
+    .getCandlesticks(ticker, { periodInterval: interval, startTs, endTs })
+    .then((history) => history.candlesticks);
+}
+
+function barFor(candle: Candlestick, mode: ChartMode) {
+  const time = toTime(candle.timestamp);
+  return mode === "candles"
+    ? {
+        time,
+        open: toCents(candle.open),
+        high: toCents(candle.high),
+        low: toCents(candle.low),
+        close: toCents(candle.close),
+      }
+    : { time, value: toCents(candle.close) };
+}
+
+// Toggle chip for range and mode controls
+function ChartToggle({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "px-2 py-1 rounded-md text-xs font-medium transition-colors",
+        active
+          ? "bg-[var(--accent)]/15 text-[var(--accent)]"
+          : "text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Price chart in 0-100¢ space with volume, the yes bid/ask band, markers for
+ * our own fills and live updates from streamed or polled trades.
+ * A second ticker can be overlaid for comparison.
+ */
+export function MarketPriceChart({ market, className }: MarketPriceChartProps) {
+  const ticker = market.ticker;
+  const [range, setRange] = React.useState<ChartRange>("1w");
+  const [mode, setMode] = React.useState<ChartMode>("candles");
+  const [compareInput, setCompareInput] = React.useState("");
+  const [compareTicker, setCompareTicker] = React.useState<string | null>(null);
+
+  // Comparing two markets only reads well as lines
+  const effectiveMode: ChartMode = compareTicker ? "line" : mode;
+  const interval = RANGES[range].interval;
+
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const chartRef = React.useRef<IChartApi | null>(null);
+  const seriesRef = React.useRef<ChartSeries | null>(null);
+  const candlesRef = React.useRef<Candlestick[]>([]);
+  const loadedRef = React.useRef<Candlestick[] | null>(null); // History the live bars build on
+  const seenTradesRef = React.useRef(new Set<string>());
+  const historyAsOfRef = React.useRef(0); // Unix seconds; earlier trades are already in the history
+
+  const { data: candles, isLoading, dataUpdatedAt: candlesUpdatedAt } = useQuery({
+    queryKey: ["kalshi", "chart", ticker, range],
+    queryFn: () => loadCandles(ticker, range, market.open_time),
+    staleTime: 60 * 1000,
+  });
+
+  const { data: compareCandles } = useQuery({
+    queryKey: ["kalshi", "chart", compareTicker, range],
+    queryFn: () => loadCandles(compareTicker!, range),
+    enabled: !!compareTicker,
+    staleTime: 60 * 1000,
+  });
+
+  // Fills need API credentials on the proxy; without them there are no markers
+  const { data: fills } = useQuery({
+    queryKey: ["kalshi", "portfolio", "fills", ticker],
+    queryFn: async () => (await portfolioApi.getFills({ ticker, limit: 100 })).fills,
+    retry: false,
+    staleTime: 30 * 1000,
+  });
+
+  // Shares its cache with the trades tape; drives live bars when the stream is down
+  const { data: polledTrades } = useQuery({
+    queryKey: ["kalshi", "trades", ticker],
+    queryFn: async () => (await marketsApi.getTradesPage({ ticker, limit: 40 })).trades,
+    staleTime: 10 * 1000,
+    refetchInterval: 15 * 1000,
+  });
+
+  // Build the chart and its series
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const up = themeColor("--up", "#34D399");
+    const down = themeColor("--down", "#FB7185");
+    const grid = themeColor("--border-default", "#27272A");
+
+    const chart = createChart(container, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: "transparent" },
+        textColor: themeColor("--text-tertiary", "#71717A"),
+        attributionLogo: false,
+      },
+      grid: { vertLines: { color: grid }, horzLines: { color: grid } },
+      rightPriceScale: { borderColor: grid },
+      timeScale: { borderColor: grid, timeVisible: true },
+      localization: { priceFormatter: (price: number) => `${price.toFixed(0)}¢` },
+    });
+
+    const main =
+      effectiveMode === "candles"
+        ? chart.addSeries(CandlestickSeries, {
+            upColor: up,
+            downColor: down,
+            wickUpColor: up,
+            wickDownColor: down,
+            borderVisible: false,
+          })
+        : chart.addSeries(LineSeries, { color: up, lineWidth: 2 });
+
+    const band = { lineWidth: 1 as const, lineStyle: LineStyle.Dotted, priceLineVisible: false, lastValueVisible: false };
+
+    seriesRef.current = {
+      main,
+      volume: chart.addSeries(HistogramSeries, {
+        priceScaleId: "volume",
+        priceFormat: { type: "volume" },
+        color: themeColor("--accent", "#8B5CF6"),
+      }),
+      bid: chart.addSeries(LineSeries, { ...band, color: up }),
+      ask: chart.addSeries(LineSeries, { ...band, color: down }),
+      compare: compareTicker
+        ? chart.addSeries(LineSeries, { color: themeColor("--info", "#38BDF8"), lineWidth: 2 })
+        : null,
+      markers: createSeriesMarkers(main, []),
+    };
+    chart.priceScale("volume").applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+    chartRef.current = chart;
+
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+    };
+  }, [effectiveMode, compareTicker]);
+
+  // Load history into the series
+  React.useEffect(() => {
+    const series = seriesRef.current;
+    if (!series || !candles) return;
+
+    // Keep live bars unless the history itself was reloaded
+    if (loadedRef.current !== candles) {
+      loadedRef.current = candles;
+      candlesRef.current = candles;
+      historyAsOfRef.current = Math.floor(candlesUpdatedAt / 1000);
+      seenTradesRef.current.clear();
+    }
+    const bars = candlesRef.current;
+
+    series.main.setData(bars.map((c) => barFor(c, effectiveMode)));
+    series.volume.setData(bars.map((c) => ({ time: toTime(c.timestamp), value: c.volume })));
+    series.bid.setData(
+      candles
+        .filter((c) => c.yesBid !== undefined)
+        .map((c) => ({ time: toTime(c.timestamp), value: toCents(c.yesBid!) }))
+    );
+    series.ask.setData(
+      candles
+        .filter((c) => c.yesAsk !== undefined)
+        .map((c) => ({ time: toTime(c.timestamp), value: toCents(c.yesAsk!) }))
+    );
+    series.compare?.setData(
+      (compareCandles ?? []).map((c) => ({ time: toTime(c.timestamp), value: toCents(c.close) }))
+    );
+
+    const markers: SeriesMarker<Time>[] = (fills ?? [])
+      .map((fill) => ({
+        time: toBarTime(fill.created_time, interval),
+        position: fill.side === "yes" ? ("belowBar" as const) : ("aboveBar" as const),
+        color: fill.side === "yes" ? themeColor("--up", "#34D399") : themeColor("--down", "#FB7185"),
+        shape: fill.action === "buy" ? ("arrowUp" as const) : ("arrowDown" as const),
+        text: `${fill.action} ${fill.count} ${fill.side} @ ${fill.yes_price}¢`,
+      }))
+      .sort((a, b) => a.time - b.time);
+    series.markers.setMarkers(markers);
+
+    chartRef.current?.timeScale().fitContent();
+  }, [candles, candlesUpdatedAt, compareCandles, fills, effectiveMode, compareTicker, interval]);
+
+  // Fold a new trade into the last bar
+  const pushTrade = React.useCallback(
+    (trade: Pick<TradeUpdate, "trade_id" | "yes_price" | "count" | "ts">) => {
+      const series = seriesRef.current;
+      if (!series || seenTradesRef.current.has(trade.trade_id)) return;
+      // The polled trades overlap the history's last candle, which already counts them
+      if (trade.ts <= historyAsOfRef.current) return;
+      seenTradesRef.current.add(trade.trade_id);
+
+      const next = applyTradeToCandles(candlesRef.current, trade, interval);
+      if (next === candlesRef.current) return;
+      candlesRef.current = next;
+
+      const last = next[next.length - 1];
+      series.main.update(barFor(last, effectiveMode));
+      series.volume.update({ time: toTime(last.timestamp), value: last.volume });
+    },
+    [interval, effectiveMode]
+  );
+
+  React.useEffect(() => {
+    return getMarketStream().subscribe("trade", [ticker], (message) => {
+      if (message.type === "trade") pushTrade(message.msg);
+    });
+  }, [ticker, pushTrade]);
+
+  React.useEffect(() => {
+    if (!polledTrades || !candles) return;
+    // Newest first from the API, so replay oldest first
+    [...polledTrades].reverse().forEach((trade) =>
+      pushTrade({ ...trade, ts: toTime(trade.created_time) })
+    );
+  }, [polledTrades, candles, pushTrade]);
+
+  const submitCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = compareInput.trim().toUpperCase();
+    setCompareTicker(next && next !== ticker ? next : null);
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {(Object.keys(RANGES) as ChartRange[]).map((r) => (
+            <ChartToggle key={r} active={r === range} onClick={() => setRange(r)}>
+              {RANGES[r].label}
+            </ChartToggle>
+          ))}
+          <span className="mx-1 h-4 w-px bg-[var(--border-default)]" />
+          <ChartToggle active={effectiveMode === "candles"} onClick={() => setMode("candles")}>
+            <CandlestickChart className="w-3.5 h-3.5" />
+          </ChartToggle>
+          <ChartToggle active={effectiveMode === "line"} onClick={() => setMode("line")}>
+            <LineChart className="w-3.5 h-3.5" />
+          </ChartToggle>
+        </div>
+
+        {compareTicker ? (
+          <button
+            onClick={() => {
+              setCompareTicker(null);
+              setCompareInput("");
+            }}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-mono bg-[var(--info)]/15 text-[var(--info)]"
+          >
+            vs {compareTicker}
+            <X className="w-3 h-3" />
+          </button>
+        ) : (
+          <form onSubmit={submitCompare} className="w-44">
+            <Input
+              placeholder="Compare ticker..."
+              value={compareInput}
+              onChange={(e) => setCompareInput(e.target.value)}
+              className="h-7 text-xs font-mono"
+            />
+          </form>
+        )}
+      </div>
+
+      <div className="relative h-72">
+        <div ref={containerRef} className="absolute inset-0" />
+        {isLoading && <Skeleton className="absolute inset-0 rounded-lg" />}
+        {!isLoading && candles?.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-[var(--text-tertiary)]">
+            No trading history in this range
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MarketPriceChart;
@@ -0,0 +1,134 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ExternalLink, AlertTriangle } from "lucide-react";
+import { Badge, Skeleton } from "@/components/ui";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { useMarketNews } from "@/hooks/use-market-news";
+import type { Market, NewsCorrelation } from "@/lib/kalshi/types";
+
+interface NewsTimelineProps {
+  market: Market;
+  className?: string;
+}
+
+const SENTIMENT_VARIANT = {
+  positive: "success",
+  negative: "destructive",
+  neutral: "secondary",
+} as const;
+
+// Yes price move in the window after the headline
+function ImpactLabel({
+  correlation,
+  windowLabel,
+  measuring,
+}: {
+  correlation: NewsCorrelation;
+  windowLabel: string;
+  measuring: boolean;
+}) {
+  if (measuring) return <span className="text-[var(--text-muted)]">Measuring…</span>;
+  if (correlation.priceImpact === null) {
+    return (
+      <span className="text-[var(--text-muted)]">
+        {correlation.tradesInWindow ? "No earlier trade to compare" : `No trades in ${windowLabel}`}
+      </span>
+    );
+  }
+
+  const cents = correlation.priceImpact * 100;
+  return (
+    <span
+      className={cn(
+        "font-mono tabular-nums",
+        cents > 0 ? "text-[var(--up)]" : cents < 0 ? "text-[var(--down)]" : "text-[var(--text-tertiary)]"
+      )}
+    >
+      {cents > 0 ? "+" : ""}
+      {cents.toFixed(0)}¢ in {windowLabel}
+    </span>
+  );
+}
+
+/**
+ * Headlines matched to a market, newest first, with the price move after each
+ */
+export function NewsTimeline({ market, className }: NewsTimelineProps) {
+  const { correlations, feedErrors, windowMs, hasFeeds, isLoading, isMeasuring, error } =
+    useMarketNews(market);
+  const windowLabel = windowMs >= 60 * 60 * 1000 ? `${windowMs / (60 * 60 * 1000)}h` : `${windowMs / 60000}m`;
+
+  if (!hasFeeds) {
+    return (
+      <p className="text-sm text-[var(--text-tertiary)]">
+        Add RSS or Atom feeds in{" "}
+        <Link href="/settings" className="text-[var(--accent)] hover:underline">
+          Settings
+        </Link>{" "}
+        to see matching headlines here.
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className={cn("space-y-2", className)}>
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-14" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {(error || feedErrors.length > 0) && (
+        <p className="flex items-center gap-1.5 text-xs text-[var(--warning)]">
+          <AlertTriangle className="w-3 h-3" />
+          {error
+            ? "Unable to load news feeds"
+            : `${feedErrors.length} ${feedErrors.length === 1 ? "feed" : "feeds"} failed to load: ${feedErrors[0].message}`}
+        </p>
+      )}
+
+      {correlations.length === 0 ? (
+        <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+          No headlines in your feeds match this market
+        </p>
+      ) : (
+        <ol className="relative border-l border-[var(--border-default)] ml-1.5 space-y-4">
+          {correlations.map((c) => (
+            <li key={c.newsItem.url} className="pl-4 relative">
+              <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-[var(--accent)]" />
+              <div className="flex items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                <span>{formatRelativeTime(c.newsItem.timestamp)}</span>
+                <span>·</span>
+                <span className="truncate">{c.newsItem.source}</span>
+              </div>
+              <a
+                href={c.newsItem.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="group inline-flex items-start gap-1 text-sm text-[var(--text-primary)] hover:text-[var(--accent)]"
+              >
+                {c.newsItem.title}
+                <ExternalLink className="w-3 h-3 mt-1 flex-shrink-0 opacity-0 group-hover:opacity-100" />
+              </a>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                <Badge variant={SENTIMENT_VARIANT[c.sentiment]} size="sm" className="capitalize">
+                  {c.sentiment}
+                </Badge>
+                <span className="text-[var(--text-tertiary)]" title={c.matchedTerms?.join(", ")}>
+                  {Math.round(c.relevanceScore * 100)}% relevant
+                </span>
+                <ImpactLabel correlation={c} windowLabel={windowLabel} measuring={isMeasuring} />
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import * as React from "react";
+import { Radio, RefreshCw, AlertTriangle } from "lucide-react";
+import { Badge, Skeleton } from "@/components/ui";
+import { cn, formatCompact } from "@/lib/utils";
+import { useOrderBook } from "@/hooks/use-order-book";
+import { useOrderTicket } from "@/hooks/use-order-ticket";
+import {
+  impliedAsks,
+  summarizeOrderBook,
+  withCumulativeDepth,
+  type DepthLevel,
+  type OrderBookState,
+} from "@/lib/kalshi/orderbook";
+import type { Market, OrderSide } from "@/lib/kalshi/types";
+
+const LEVELS_PER_SIDE = 6;
+
+interface OrderBookLadderProps {
+  market: Market;
+  className?: string;
+}
+
+// One price level; flashes when its size changes
+function LadderRow({
+  level,
+  kind,
+  side,
+  maxQuantity,
+  maxCumulative,
+  onSelect,
+}: {
+  level: DepthLevel;
+  kind: "bid" | "ask";
+  side: OrderSide;
+  maxQuantity: number;
+  maxCumulative: number;
+  onSelect: (price: number) => void;
+}) {
+  const [previous, setPrevious] = React.useState(level.quantity);
+  const [flash, setFlash] = React.useState<"up" | "down" | null>(null);
+
+  React.useEffect(() => {
+    if (level.quantity !== previous) {
+      setFlash(level.quantity > previous ? "up" : "down");
+      setPrevious(level.quantity);
+
+      const timer = setTimeout(() => setFlash(null), 600);
+      return () => clearTimeout(timer);
+    }
+  }, [level.quantity, previous]);
+
+  const barColor = kind === "bid" ? "bg-[var(--up)]" : "bg-[var(--down)]";
+
+  return (
+    <button
+      onClick={() => onSelect(level.price)}
+      title={`Buy ${side} at ${level.price}¢`}
+      className={cn(
+        "relative grid grid-cols-3 w-full px-2 py-1 text-xs tabular-nums font-mono rounded transition-colors duration-300 hover:bg-[var(--surface-3)]",
+        flash === "up" && "bg-[var(--up-muted)]",
+        flash === "down" && "bg-[var(--down-muted)]"
+      )}
+    >
+      {/* Cumulative depth behind, level size in front */}
+      <span
+        className={cn("absolute inset-y-0 right-0 opacity-10 rounded", barColor)}
+        style={{ width: `${(level.cumulative / maxCumulative) * 100}%` }}
+      />
+      <span
+        className={cn("absolute inset-y-0 right-0 opacity-20 rounded", barColor)}
+        style={{ width: `${(level.quantity / maxQuantity) * 100}%` }}
+      />
+      <span
+        className={cn(
+          "relative text-left font-semibold",
+          kind === "bid" ? "text-[var(--up)]" : "text-[var(--down)]"
+        )}
+      >
+        {level.price}¢
+      </span>
+      <span className="relative text-right text-[var(--text-secondary)]">
+        {formatCompact(level.quantity)}
+      </span>
+      <span className="relative text-right text-[var(--text-tertiary)]">
+        {formatCompact(level.cumulative)}
+      </span>
+    </button>
+  );
+}
+
+// Ladder for buying one side: implied asks above the spread, resting bids below
+function SideLadder({
+  book,
+  side,
+  onSelect,
+}: {
+  book: OrderBookState;
+  side: OrderSide;
+  onSelect: (side: OrderSide, price: number) => void;
+}) {
+  const bids = withCumulativeDepth(book[side].slice(0, LEVELS_PER_SIDE));
+  const asks = withCumulativeDepth(impliedAsks(book, side).slice(0, LEVELS_PER_SIDE));
+
+  const maxQuantity = Math.max(1, ...bids.map((l) => l.quantity), ...asks.map((l) => l.quantity));
+  const maxCumulative = Math.max(1, bids.at(-1)?.cumulative ?? 0, asks.at(-1)?.cumulative ?? 0);
+  const spread = bids[0] && asks[0] ? asks[0].price - bids[0].price : null;
+
+  const rowProps = { side, maxQuantity, maxCumulative, onSelect: (price: number) => onSelect(side, price) };
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-3 px-2 text-[10px] uppercase tracking-wider text-[var(--text-muted)]">
+        <span className={side === "yes" ? "text-[var(--up)]" : "text-[var(--down)]"}>
+          {side === "yes" ? "Yes" : "No"}
+        </span>
+        <span className="text-right">Size</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      {/* Best ask sits next to the spread, so asks render worst first */}
+      {[...asks].reverse().map((level) => (
+        <LadderRow key={`ask-${level.price}`} level={level} kind="ask" {...rowProps} />
+      ))}
+
+      <div className="px-2 py-1 text-[10px] text-center text-[var(--text-tertiary)] border-y border-[var(--border-default)]">
+        {spread !== null ? `Spread ${spread}¢` : "No two-sided market"}
+      </div>
+
+      {bids.map((level) => (
+        <LadderRow key={`bid-${level.price}`} level={level} kind="bid" {...rowProps} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Order book ladder for a market. Click any level to prefill an order at that price.
+ */
+export function OrderBookLadder({ market, className }: OrderBookLadderProps) {
+  const { book, isLive, isLoading, error } = useOrderBook(market.ticker);
+  const openTicket = useOrderTicket((state) => state.open);
+
+  const summary = book ? summarizeOrderBook(book) : null;
+  const isEmpty = summary !== null && summary.yesDepth === 0 && summary.noDepth === 0;
+
+  return (
+    <div
+      className={cn(
+        "p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-4",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-[var(--text-primary)]">Order Book</h3>
+        <div className="flex items-center gap-2">
+          {summary?.crossed && (
+            <Badge variant="warning" size="sm">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Crossed
+            </Badge>
+          )}
+          <Badge variant={isLive ? "success" : "secondary"} size="sm">
+            {isLive ? (
+              <Radio className="w-3 h-3 mr-1" />
+            ) : (
+              <RefreshCw className="w-3 h-3 mr-1" />
+            )}
+            {isLive ? "Live" : "Polling"}
+          </Badge>
+        </div>
+      </div>
+
+      {summary && !isEmpty && (
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <p className="text-[var(--text-muted)]">Yes bid / ask</p>
+            <p className="font-mono tabular-nums text-[var(--text-primary)]">
+              {summary.bestYesBid ?? "—"} / {summary.bestYesAsk ?? "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-[var(--text-muted)]">Mid</p>
+            <p className="font-mono tabular-nums text-[var(--text-primary)]">
+              {summary.mid !== null ? `${summary.mid.toFixed(1)}¢` : "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-[var(--text-muted)]">Depth (yes / no)</p>
+            <p className="font-mono tabular-nums text-[var(--text-primary)]">
+              {formatCompact(summary.yesDepth)} / {formatCompact(summary.noDepth)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-1">
+          {[...Array(8)].map((_, i) => (
+            <Skeleton key={i} className="h-6" />
+          ))}
+        </div>
+      ) : error && !book ? (
+        <p className="text-sm text-[var(--down)]">Unable to load the order book.</p>
+      ) : !book || isEmpty ? (
+        <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+          No resting orders
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          <SideLadder book={book} side="yes" onSelect={(side, price) => openTicket(market, side, price)} />
+          <SideLadder book={book} side="no" onSelect={(side, price) => openTicket(market, side, price)} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OrderBookLadder;
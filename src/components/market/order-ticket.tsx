@@ -0,0 +1,357 @@
+"use client";
+
+import * as React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X, Minus, Plus, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Button, Input, Badge } from "@/components/ui";
+import { cn, formatCurrency, formatPercent } from "@/lib/utils";
+import { useOrderTicket } from "@/hooks/use-order-ticket";
+import { portfolioApi, ordersApi } from "@/lib/kalshi/client";
+import {
+  previewOrder,
+  snapToTick,
+  askForSide,
+  isMarketable,
+} from "@/lib/kalshi/order-preview";
+import type { Market, OrderSide, TimeInForce } from "@/lib/kalshi/types";
+
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; label: string }[] = [
+  { value: "good_till_canceled", label: "GTC" },
+  { value: "immediate_or_cancel", label: "IOC" },
+  { value: "fill_or_kill", label: "FOK" },
+];
+
+function formatCents(cents: number): string {
+  return formatCurrency(cents / 100);
+}
+
+// One line of the pre-trade preview
+function PreviewRow({
+  label,
+  value,
+  emphasis,
+  tone,
+}: {
+  label: string;
+  value: string;
+  emphasis?: boolean;
+  tone?: "up" | "down";
+}) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-[var(--text-tertiary)]">{label}</span>
+      <span
+        className={cn(
+          "tabular-nums font-mono",
+          emphasis ? "font-semibold text-[var(--text-primary)]" : "text-[var(--text-secondary)]",
+          tone === "up" && "text-[var(--up)]",
+          tone === "down" && "text-[var(--down)]"
+        )}
+      >
+        {value}
+      </span>
+    </div>
+  );
+}
+
+function OrderTicketPanel({
+  market,
+  initialSide,
+  initialPrice,
+  onClose,
+}: {
+  market: Market;
+  initialSide: OrderSide;
+  initialPrice?: number;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const tickSize = market.tick_size || 1;
+
+  const [side, setSide] = React.useState<OrderSide>(initialSide);
+  const [count, setCount] = React.useState("10");
+  const [price, setPrice] = React.useState(() =>
+    snapToTick(initialPrice ?? (askForSide(market, initialSide) || 50), tickSize)
+  );
+  const [timeInForce, setTimeInForce] =
+    React.useState<TimeInForce>("good_till_canceled");
+
+  // Balance needs API credentials on the proxy; without them we preview without it
+  const { data: balance } = useQuery({
+    queryKey: ["kalshi", "portfolio", "balance"],
+    queryFn: () => portfolioApi.getBalance(),
+    retry: false,
+    staleTime: 15 * 1000,
+  });
+
+  const contracts = Number.parseInt(count, 10) || 0;
+  const preview = previewOrder({
+    side,
+    count: contracts,
+    priceCents: price,
+    balanceCents: balance?.balance,
+  });
+  const crosses = isMarketable(market, side, price);
+
+  const placeOrder = useMutation({
+    mutationFn: () =>
+      ordersApi.createOrder({
+        ticker: market.ticker,
+        side,
+        action: "buy",
+        count: contracts,
+        type: "limit",
+        ...(side === "yes" ? { yes_price: price } : { no_price: price }),
+        // Resting orders are good-till-canceled by default
+        time_in_force:
+          timeInForce === "good_till_canceled" ? undefined : timeInForce,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kalshi", "portfolio"] });
+    },
+  });
+
+  const selectSide = (next: OrderSide) => {
+    setSide(next);
+    setPrice(snapToTick(askForSide(market, next) || 50, tickSize));
+    placeOrder.reset();
+  };
+
+  const canSubmit =
+    contracts > 0 && !preview.insufficientFunds && !placeOrder.isPending;
+
+  return (
+    <motion.aside
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", stiffness: 400, damping: 40 }}
+      className="fixed top-0 right-0 z-50 h-screen w-full max-w-md flex flex-col bg-[var(--surface-2)]/95 backdrop-blur-xl border-l border-[var(--border-default)] shadow-2xl shadow-black/40"
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3 p-5 border-b border-[var(--border-default)]">
+        <div className="min-w-0">
+          <p className="text-xs text-[var(--text-tertiary)] uppercase tracking-wider">
+            Order Ticket
+          </p>
+          <h2 className="text-base font-semibold text-[var(--text-primary)] line-clamp-2 mt-1">
+            {market.title}
+          </h2>
+          <p className="text-xs text-[var(--text-muted)] font-mono mt-1">
+            {market.ticker}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-[var(--surface-3)] text-[var(--text-tertiary)]"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-5">
+        {/* Side */}
+        <div className="grid grid-cols-2 gap-2">
+          {(["yes", "no"] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => selectSide(s)}
+              className={cn(
+                "py-3 rounded-lg text-sm font-semibold border transition-colors",
+                side === s
+                  ? s === "yes"
+                    ? "bg-[var(--up-muted)] text-[var(--up)] border-[var(--up)]/40"
+                    : "bg-[var(--down-muted)] text-[var(--down)] border-[var(--down)]/40"
+                  : "bg-[var(--surface-3)] text-[var(--text-tertiary)] border-[var(--border-default)]"
+              )}
+            >
+              Buy {s === "yes" ? "Yes" : "No"} · {askForSide(market, s)}¢
+            </button>
+          ))}
+        </div>
+
+        {/* Contracts */}
+        <div className="space-y-1.5">
+          <label className="text-xs text-[var(--text-tertiary)]">Contracts</label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={count}
+            onChange={(e) => setCount(e.target.value)}
+          />
+        </div>
+
+        {/* Limit price */}
+        <div className="space-y-1.5">
+          <label className="text-xs text-[var(--text-tertiary)]">
+            Limit price (¢, tick {tickSize}¢)
+          </label>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPrice((p) => snapToTick(p - tickSize, tickSize))}
+            >
+              <Minus />
+            </Button>
+            <Input
+              type="number"
+              min={tickSize}
+              max={100 - tickSize}
+              step={tickSize}
+              value={price}
+              onChange={(e) => setPrice(Number(e.target.value) || tickSize)}
+              onBlur={() => setPrice((p) => snapToTick(p, tickSize))}
+              className="text-center font-mono"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPrice((p) => snapToTick(p + tickSize, tickSize))}
+            >
+              <Plus />
+            </Button>
+          </div>
+          {crosses && (
+            <p className="text-xs text-[var(--warning)]">
+              At or above the ask, this order will fill immediately as a taker.
+            </p>
+          )}
+        </div>
+
+        {/* Time in force */}
+        <div className="space-y-1.5">
+          <label className="text-xs text-[var(--text-tertiary)]">Time in force</label>
+          <div className="grid grid-cols-3 gap-2">
+            {TIME_IN_FORCE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setTimeInForce(option.value)}
+                className={cn(
+                  "py-2 rounded-lg text-xs font-medium border transition-colors",
+                  timeInForce === option.value
+                    ? "bg-[var(--accent)]/15 text-[var(--accent)] border-[var(--accent)]/30"
+                    : "bg-[var(--surface-3)] text-[var(--text-tertiary)] border-[var(--border-default)]"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="p-4 rounded-xl bg-[var(--surface-3)] border border-[var(--border-default)] space-y-2">
+          <PreviewRow label="Cost" value={formatCents(preview.cost)} />
+          <PreviewRow label="Est. fees (taker)" value={formatCents(preview.fees)} />
+          <PreviewRow label="Total cost" value={formatCents(preview.totalCost)} emphasis />
+          <div className="border-t border-[var(--border-default)] my-2" />
+          <PreviewRow label="Payout if right" value={formatCents(preview.maxPayout)} />
+          <PreviewRow
+            label="Max profit"
+            value={formatCents(preview.maxProfit)}
+            tone={preview.maxProfit > 0 ? "up" : "down"}
+          />
+          <PreviewRow
+            label="Breakeven probability"
+            value={formatPercent(preview.breakevenProbability)}
+          />
+          <div className="border-t border-[var(--border-default)] my-2" />
+          <PreviewRow
+            label="Balance after"
+            value={
+              preview.balanceAfter !== undefined
+                ? formatCents(preview.balanceAfter)
+                : "—"
+            }
+            tone={preview.insufficientFunds ? "down" : undefined}
+          />
+        </div>
+
+        {preview.insufficientFunds && (
+          <div className="flex items-center gap-2 text-xs text-[var(--down)]">
+            <AlertTriangle className="w-4 h-4" />
+            Insufficient balance for this order
+          </div>
+        )}
+
+        {placeOrder.isError && (
+          <div className="flex items-center gap-2 text-xs text-[var(--down)]">
+            <AlertTriangle className="w-4 h-4" />
+            {placeOrder.error instanceof Error
+              ? placeOrder.error.message
+              : "Order failed"}
+          </div>
+        )}
+
+        {placeOrder.isSuccess && (
+          <div className="flex items-center gap-2 text-xs text-[var(--up)]">
+            <CheckCircle2 className="w-4 h-4" />
+            Order {placeOrder.data.status}
+            <Badge variant="secondary" size="sm" className="font-mono">
+              {placeOrder.data.order_id.slice(0, 8)}
+            </Badge>
+          </div>
+        )}
+      </div>
+
+      {/* Submit */}
+      <div className="p-5 border-t border-[var(--border-default)]">
+        <Button
+          variant={side === "yes" ? "success" : "destructive"}
+          size="lg"
+          className="w-full"
+          disabled={!canSubmit}
+          loading={placeOrder.isPending}
+          onClick={() => placeOrder.mutate()}
+        >
+          Buy {contracts} {side === "yes" ? "Yes" : "No"} @ {price}¢
+        </Button>
+      </div>
+    </motion.aside>
+  );
+}
+
+/**
+ * Order ticket drawer, opened from any market card via useOrderTicket
+ */
+export function OrderTicket() {
+  const { market, side, priceCents, close } = useOrderTicket();
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [close]);
+
+  return (
+    <AnimatePresence>
+      {market && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={close}
+          />
+          <OrderTicketPanel
+            key={`${market.ticker}-${side}-${priceCents ?? ""}`}
+            market={market}
+            initialSide={side}
+            initialPrice={priceCents}
+            onClose={close}
+          />
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default OrderTicket;
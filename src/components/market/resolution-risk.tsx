@@ -0,0 +1,96 @@
+"use client";
+
+import * as React from "react";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { RISK_FACTORS, type ResolutionRisk } from "@/lib/kalshi/resolution-risk";
+
+const LEVEL_VARIANT = {
+  low: "success",
+  medium: "warning",
+  high: "destructive",
+} as const;
+
+const LEVEL_LABEL = {
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+} as const;
+
+/**
+ * Compact Oracle Risk Radar score for cards and headers
+ */
+export function ResolutionRiskBadge({ risk, className }: { risk: ResolutionRisk; className?: string }) {
+  const Icon = risk.level === "low" ? ShieldCheck : ShieldAlert;
+
+  return (
+    <Badge
+      variant={LEVEL_VARIANT[risk.level]}
+      size="sm"
+      className={cn("gap-1", className)}
+      title={`Resolution risk ${risk.score}/100`}
+    >
+      <Icon className="w-3 h-3" />
+      {LEVEL_LABEL[risk.level]}
+    </Badge>
+  );
+}
+
+/**
+ * Every finding behind a market's risk score, with the phrases that raised it
+ */
+export function ResolutionRiskPanel({ risk, className }: { risk: ResolutionRisk; className?: string }) {
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <ResolutionRiskBadge risk={risk} />
+        <span className="text-sm font-mono tabular-nums text-[var(--text-primary)]">{risk.score}/100</span>
+      </div>
+
+      <div className="h-1.5 rounded-full bg-[var(--surface-3)] overflow-hidden">
+        <div
+          className={cn(
+            "h-full rounded-full",
+            risk.level === "high"
+              ? "bg-[var(--down)]"
+              : risk.level === "medium"
+                ? "bg-[var(--warning)]"
+                : "bg-[var(--up)]"
+          )}
+          style={{ width: `${risk.score}%` }}
+        />
+      </div>
+
+      {risk.findings.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">
+          The rules name a source and use no vague or subjective terms.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {risk.findings.map((finding) => (
+            <li key={finding.factor} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-[var(--text-secondary)]">{RISK_FACTORS[finding.factor]}</span>
+                <span className="text-xs font-mono tabular-nums text-[var(--text-tertiary)]">+{finding.points}</span>
+              </div>
+              <p className="text-xs text-[var(--text-tertiary)]">{finding.detail}</p>
+              {finding.phrases.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {finding.phrases.map((phrase) => (
+                    <span
+                      key={phrase}
+                      className="px-1.5 py-0.5 rounded bg-[var(--warning)]/15 text-[11px] text-[var(--warning)]"
+                    >
+                      &ldquo;{phrase}&rdquo;
+                    </span>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import * as React from "react";
+import { ChevronDown, Info } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { RankedMarket } from "@/lib/kalshi/ranking";
+
+interface ScoreBreakdownProps {
+  ranked: RankedMarket;
+  strategy: string;
+  className?: string;
+}
+
+/**
+ * Collapsible explanation of why a market ranked where it did
+ */
+export function ScoreBreakdown({ ranked, strategy, className }: ScoreBreakdownProps) {
+  const [open, setOpen] = React.useState(false);
+  const total = ranked.breakdown.reduce((sum, c) => sum + Math.abs(c.contribution), 0);
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg bg-[var(--surface-2)] border border-[var(--border-default)] text-xs",
+        className
+      )}
+    >
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+      >
+        <span className="flex items-center gap-1.5">
+          <Info className="w-3 h-3" />
+          {strategy} score
+          <span className="font-mono tabular-nums text-[var(--text-primary)]">
+            {ranked.score.toFixed(2)}
+          </span>
+        </span>
+        <ChevronDown className={cn("w-3 h-3 transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          {ranked.breakdown.map((c) => (
+            <div key={c.metric} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[var(--text-secondary)]">{c.label}</span>
+                <span className="font-mono tabular-nums text-[var(--text-tertiary)]">
+                  {c.value.toFixed(2)} × {c.weight} ={" "}
+                  <span className="text-[var(--text-primary)]">{c.contribution.toFixed(2)}</span>
+                </span>
+              </div>
+              <div className="h-1 rounded-full bg-[var(--surface-3)] overflow-hidden">
+                <div
+                  className={cn(
+                    "h-full rounded-full",
+                    c.contribution >= 0 ? "bg-[var(--accent)]" : "bg-[var(--down)]"
+                  )}
+                  style={{ width: `${total > 0 ? (Math.abs(c.contribution) / total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
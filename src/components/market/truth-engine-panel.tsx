@@ -0,0 +1,130 @@
+"use client";
+
+import * as React from "react";
+import { Brain, RefreshCw, AlertTriangle } from "lucide-react";
+import { Badge, Button } from "@/components/ui";
+import { cn, formatPercent, formatRelativeTime } from "@/lib/utils";
+import { useAIAnalyses } from "@/hooks/use-ai-analyses";
+import { getProbabilityModels, useTruthEngine } from "@/hooks/use-truth-engine";
+import type { AIAnalysis, Market } from "@/lib/kalshi/types";
+
+interface TruthEnginePanelProps {
+  market: Market;
+  className?: string;
+}
+
+const CONFIDENCE_VARIANT = {
+  low: "secondary",
+  medium: "info",
+  high: "success",
+} as const;
+
+// Edge in cents per contract, on the side it favors
+function EdgeLabel({ edge }: { edge: number }) {
+  if (edge === 0) {
+    return <span className="text-[var(--text-tertiary)]">Inside spread</span>;
+  }
+
+  return (
+    <span className={edge > 0 ? "text-[var(--up)]" : "text-[var(--down)]"}>
+      {(Math.abs(edge) * 100).toFixed(1)}¢ {edge > 0 ? "yes" : "no"}
+    </span>
+  );
+}
+
+function AnalysisRow({ analysis, modelName }: { analysis: AIAnalysis; modelName: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-[var(--surface-3)] space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-[var(--text-primary)]">{modelName}</span>
+        <Badge variant={CONFIDENCE_VARIANT[analysis.confidence]} size="sm" className="capitalize">
+          {analysis.confidence}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs tabular-nums">
+        <div>
+          <p className="text-[var(--text-muted)]">Model</p>
+          <p className="font-mono text-[var(--text-primary)]">{formatPercent(analysis.aiProbability)}</p>
+        </div>
+        <div>
+          <p className="text-[var(--text-muted)]">Market</p>
+          <p className="font-mono text-[var(--text-secondary)]">{formatPercent(analysis.marketProbability)}</p>
+        </div>
+        <div>
+          <p className="text-[var(--text-muted)]">Edge</p>
+          <p className="font-mono">
+            <EdgeLabel edge={analysis.edge} />
+          </p>
+        </div>
+      </div>
+
+      <p className="text-xs text-[var(--text-secondary)] leading-relaxed">{analysis.reasoning}</p>
+
+      <div className="flex items-center justify-between gap-2 text-[10px] text-[var(--text-muted)]">
+        <span className="truncate">{analysis.sources.join(" · ")}</span>
+        <span className="flex-shrink-0">{formatRelativeTime(analysis.updatedAt)}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Truth Engine estimates for a market from every configured probability model
+ */
+export function TruthEnginePanel({ market, className }: TruthEnginePanelProps) {
+  const llmUrl = useAIAnalyses((state) => state.llmUrl);
+  const { analyses, failures, isRunning, run } = useTruthEngine(market);
+
+  const modelNames = React.useMemo(
+    () => new Map(getProbabilityModels(llmUrl).map((model) => [model.id, model.name])),
+    [llmUrl]
+  );
+
+  return (
+    <div
+      className={cn(
+        "p-5 rounded-xl bg-[var(--surface-2)] border border-[var(--border-default)] space-y-3",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-[var(--text-primary)] flex items-center gap-2">
+          <Brain className="w-4 h-4 text-[var(--accent)]" />
+          Truth Engine
+        </h3>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => run()} disabled={isRunning}>
+          <RefreshCw className={cn("w-3 h-3", isRunning && "animate-spin")} />
+          Run
+        </Button>
+      </div>
+
+      {analyses.length === 0 && !isRunning && (
+        <p className="text-sm text-[var(--text-tertiary)]">
+          Not enough trades or series history for an estimate yet
+        </p>
+      )}
+
+      {analyses.map((analysis) => (
+        <AnalysisRow
+          key={analysis.modelId}
+          analysis={analysis}
+          modelName={modelNames.get(analysis.modelId ?? "") ?? analysis.modelId ?? "Model"}
+        />
+      ))}
+
+      {failures.map((failure) => (
+        <p key={failure.modelId} className="flex items-start gap-2 text-xs text-[var(--warning)]">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {modelNames.get(failure.modelId) ?? failure.modelId}: {failure.message}
+        </p>
+      ))}
+
+      {!llmUrl && (
+        <p className="text-xs text-[var(--text-muted)]">
+          Add an LLM endpoint in Settings to include a language model estimate.
+        </p>
+      )}
+    </div>
+  );
+}
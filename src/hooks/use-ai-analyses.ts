@@ -0,0 +1,53 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AIAnalysis } from "@/lib/kalshi/types";
+
+// Per-ticker history kept for trend display; older runs are dropped
+const MAX_ANALYSES_PER_TICKER = 20;
+
+interface AIAnalysesState {
+  byTicker: Record<string, AIAnalysis[]>; // Newest first
+  llmUrl: string;
+  record: (analysis: AIAnalysis) => void;
+  setLlmUrl: (url: string) => void;
+}
+
+/**
+ * Truth Engine output per ticker, with the LLM endpoint it calls, kept in
+ * localStorage
+ */
+export const useAIAnalyses = create<AIAnalysesState>()(
+  persist(
+    (set) => ({
+      byTicker: {},
+      llmUrl: "",
+      record: (analysis) =>
+        set((state) => ({
+          byTicker: {
+            ...state.byTicker,
+            [analysis.marketId]: [
+              analysis,
+              ...(state.byTicker[analysis.marketId] ?? []),
+            ].slice(0, MAX_ANALYSES_PER_TICKER),
+          },
+        })),
+      setLlmUrl: (llmUrl) => set({ llmUrl }),
+    }),
+    { name: "kalshiai-analyses", skipHydration: true }
+  )
+);
+
+/**
+ * Most recent analysis per model for a ticker
+ */
+export function latestByModel(analyses: AIAnalysis[]): AIAnalysis[] {
+  const seen = new Set<string>();
+  return analyses.filter((analysis) => {
+    const key = analysis.modelId ?? "";
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
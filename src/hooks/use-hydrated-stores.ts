@@ -0,0 +1,34 @@
+"use client";
+
+import * as React from "react";
+
+interface PersistedStore {
+  persist: {
+    rehydrate: () => Promise<void> | void;
+    hasHydrated: () => boolean;
+  };
+}
+
+/**
+ * Load persisted stores from localStorage after mount and report when they
+ * all have. The stores are created with `skipHydration` because the pages
+ * are prerendered: reading storage during the first render would make it
+ * differ from the static HTML.
+ */
+export function useHydratedStores(...stores: PersistedStore[]): boolean {
+  const [hydrated, setHydrated] = React.useState(() =>
+    stores.every((store) => store.persist.hasHydrated())
+  );
+
+  // The stores are module singletons, so the first render's list holds
+  const storesRef = React.useRef(stores);
+  React.useEffect(() => {
+    Promise.all(
+      storesRef.current
+        .filter((store) => !store.persist.hasHydrated())
+        .map((store) => store.persist.rehydrate())
+    ).then(() => setHydrated(true));
+  }, []);
+
+  return hydrated;
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { kalshi } from "@/lib/kalshi/client";
+import { generateInsights } from "@/lib/kalshi/insights";
+import { latestByModel, useAIAnalyses } from "./use-ai-analyses";
+import { useHydratedStores } from "./use-hydrated-stores";
+import { useInsightHistory } from "./use-insight-history";
+import { analyzeMarket } from "./use-truth-engine";
+
+// The Truth Engine runs on this many of the most traded markets; analyses
+// from market pages the user has visited feed in as well
+const FEED_ANALYZED_MARKETS = 5;
+const FEED_ANALYSIS_STALE_MS = 15 * 60 * 1000;
+
+/**
+ * Live insights from the open market universe, recorded to the insight
+ * history as they appear
+ */
+export function useInsightFeed() {
+  const llmUrl = useAIAnalyses((state) => state.llmUrl);
+  const record = useAIAnalyses((state) => state.record);
+  const byTicker = useAIAnalyses((state) => state.byTicker);
+  const recordAll = useInsightHistory((state) => state.recordAll);
+
+  // Both stores must load before anything is written over them
+  const hydrated = useHydratedStores(useAIAnalyses, useInsightHistory);
+
+  // Kept out from under the "kalshi" key so stream patches, which land
+  // every few hundred milliseconds, don't regenerate the feed and rewrite
+  // the history; it updates with each poll. The universe itself is cached
+  // by the client, so this shares the walk with the rest of the dashboard.
+  const {
+    data: markets,
+    isLoading,
+    error,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: ["insight-feed", "open-markets"],
+    queryFn: () => kalshi.getOpenMarkets(),
+    staleTime: 60 * 1000,
+    refetchInterval: 2 * 60 * 1000,
+  });
+
+  const analyzeTickers = React.useMemo(
+    () =>
+      [...(markets ?? [])]
+        .sort((a, b) => (b.volume_24h ?? 0) - (a.volume_24h ?? 0))
+        .slice(0, FEED_ANALYZED_MARKETS),
+    [markets]
+  );
+
+  useQuery({
+    queryKey: ["kalshi", "insight-analyses", analyzeTickers.map((m) => m.ticker).join(","), llmUrl],
+    queryFn: async ({ signal }) => {
+      const results = await Promise.all(
+        analyzeTickers.map((market) => analyzeMarket(market, llmUrl, signal))
+      );
+      results.forEach(({ analyses }) => analyses.forEach(record));
+      return results.length;
+    },
+    enabled: hydrated && analyzeTickers.length > 0,
+    staleTime: FEED_ANALYSIS_STALE_MS,
+  });
+
+  const insights = React.useMemo(
+    () =>
+      markets
+        ? generateInsights(markets, Object.values(byTicker).flatMap(latestByModel), dataUpdatedAt)
+        : [],
+    [markets, byTicker, dataUpdatedAt]
+  );
+
+  React.useEffect(() => {
+    if (hydrated && markets) recordAll(insights, dataUpdatedAt);
+  }, [hydrated, markets, insights, dataUpdatedAt, recordAll]);
+
+  return { insights, isLoading, error };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Insight } from "@/lib/kalshi/insights";
+
+// Oldest entries are dropped past this
+const MAX_HISTORY = 300;
+
+export interface InsightRecord extends Insight {
+  lastSeenAt: string;
+}
+
+interface InsightHistoryState {
+  records: InsightRecord[]; // Newest first by when they were first seen
+  recordAll: (insights: Insight[], nowMs: number) => void;
+  clear: () => void;
+}
+
+/**
+ * Every insight the feed has surfaced, kept in localStorage. An insight that
+ * is still live updates its record in place rather than adding a new one.
+ */
+export const useInsightHistory = create<InsightHistoryState>()(
+  persist(
+    (set) => ({
+      records: [],
+      recordAll: (insights, nowMs) =>
+        set((state) => {
+          const lastSeenAt = new Date(nowMs).toISOString();
+          const live = new Map(insights.map((i) => [i.id, i]));
+
+          const updated = state.records.map((record) => {
+            const current = live.get(record.id);
+            if (!current) return record;
+            live.delete(record.id);
+            return { ...current, createdAt: record.createdAt, lastSeenAt };
+          });
+          const added = [...live.values()].map((i) => ({ ...i, lastSeenAt }));
+
+          return { records: [...added, ...updated].slice(0, MAX_HISTORY) };
+        }),
+      clear: () => set({ records: [] }),
+    }),
+    { name: "kalshiai-insights", skipHydration: true }
+  )
+);
@@ -0,0 +1,93 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { eventsApi, marketsApi } from "@/lib/kalshi/client";
+import { createFeedSource, fetchNews } from "@/lib/kalshi/news";
+import { correlateNews, DEFAULT_CORRELATION_OPTIONS } from "@/lib/kalshi/news-correlation";
+import type { Market } from "@/lib/kalshi/types";
+import { useHydratedStores } from "./use-hydrated-stores";
+import { useNewsFeeds } from "./use-news-feeds";
+
+// Feeds publish every few minutes at most
+const NEWS_STALE_MS = 5 * 60 * 1000;
+// Most feeds don't send CORS headers, so the browser reads them through
+// the Pages Function
+const FEED_PROXY_URL = "/api/kalshi/feed";
+// Trades this long before the earliest headline give it a price to move from
+const PRICE_LOOKBACK_S = 6 * 60 * 60;
+const MAX_TRADE_PAGES = 10;
+
+async function loadNews(feeds: string[], signal: AbortSignal) {
+  return fetchNews(feeds.map((url) => createFeedSource({ url, proxyUrl: FEED_PROXY_URL })), { signal });
+}
+
+async function loadTradesSince(ticker: string, sinceMs: number, signal: AbortSignal) {
+  return marketsApi.getAllTrades(
+    { ticker, min_ts: Math.floor(sinceMs / 1000) - PRICE_LOOKBACK_S },
+    { maxPages: MAX_TRADE_PAGES, signal }
+  );
+}
+
+/**
+ * Headlines from the configured feeds that match a market, each with the
+ * yes price move in the hour after it
+ */
+export function useMarketNews(market: Market) {
+  const feeds = useNewsFeeds((state) => state.feeds);
+
+  useHydratedStores(useNewsFeeds);
+
+  const {
+    data: news,
+    isLoading: isLoadingNews,
+    error,
+  } = useQuery({
+    queryKey: ["news", feeds],
+    queryFn: ({ signal }) => loadNews(feeds, signal),
+    enabled: feeds.length > 0,
+    staleTime: NEWS_STALE_MS,
+    refetchInterval: NEWS_STALE_MS,
+  });
+
+  // Shared with the event page
+  const { data: event } = useQuery({
+    queryKey: ["kalshi", "event", market.event_ticker],
+    queryFn: () => eventsApi.getEvent(market.event_ticker),
+    staleTime: 15 * 1000,
+  });
+
+  // Match first, so trades are only fetched back to the oldest relevant headline
+  const matches = React.useMemo(
+    () => (news ? correlateNews(news.items, market, [], { eventTitle: event?.title }) : []),
+    [news, market, event?.title]
+  );
+  const earliestMs = matches.length
+    ? new Date(matches[matches.length - 1].newsItem.timestamp).getTime()
+    : null;
+
+  const { data: trades, isLoading: isLoadingTrades } = useQuery({
+    queryKey: ["kalshi", "news-trades", market.ticker, earliestMs],
+    queryFn: ({ signal }) => loadTradesSince(market.ticker, earliestMs!, signal),
+    enabled: earliestMs !== null,
+    staleTime: 60 * 1000,
+  });
+
+  const correlations = React.useMemo(
+    () =>
+      news && trades
+        ? correlateNews(news.items, market, trades, { eventTitle: event?.title })
+        : matches,
+    [news, trades, market, event?.title, matches]
+  );
+
+  return {
+    correlations,
+    feedErrors: news?.errors ?? [],
+    windowMs: DEFAULT_CORRELATION_OPTIONS.windowMs,
+    hasFeeds: feeds.length > 0,
+    isLoading: feeds.length > 0 && isLoadingNews,
+    isMeasuring: earliestMs !== null && isLoadingTrades,
+    error,
+  };
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getMarketStream } from "@/lib/kalshi/stream";
+import { applyTickerUpdate } from "@/lib/kalshi/client";
+import type { RankedMarket } from "@/lib/kalshi/ranking";
+import type { Market, StreamStatus, TickerUpdate } from "@/lib/kalshi/types";
+
+// Ticks are coalesced so a busy market doesn't re-render every card per message
+const FLUSH_INTERVAL_MS = 250;
+
+function isMarket(value: unknown): value is Market {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Market).ticker === "string" &&
+    typeof (value as Market).yes_ask === "number"
+  );
+}
+
+function isRankedMarket(value: unknown): value is RankedMarket {
+  return typeof value === "object" && value !== null && isMarket((value as RankedMarket).market);
+}
+
+// Patch a cached Market, Market[] or RankedMarket[] with pending updates. Scores
+// are left as ranked until the next refetch. Returns undefined when nothing
+// changed, which tells setQueriesData to leave the query alone.
+function patchCachedMarkets(
+  data: unknown,
+  updates: Map<string, TickerUpdate>
+): Market | Market[] | RankedMarket[] | undefined {
+  if (isMarket(data)) {
+    const update = updates.get(data.ticker);
+    const patched = update ? applyTickerUpdate(data, update) : data;
+    return patched !== data ? patched : undefined;
+  }
+
+  if (Array.isArray(data) && data.length > 0 && data.every(isMarket)) {
+    let changed = false;
+    const next = data.map((market) => {
+      const update = updates.get(market.ticker);
+      const patched = update ? applyTickerUpdate(market, update) : market;
+      if (patched !== market) changed = true;
+      return patched;
+    });
+    return changed ? next : undefined;
+  }
+
+  if (Array.isArray(data) && data.length > 0 && data.every(isRankedMarket)) {
+    let changed = false;
+    const next = data.map((ranked) => {
+      const update = updates.get(ranked.market.ticker);
+      const patched = update ? applyTickerUpdate(ranked.market, update) : ranked.market;
+      if (patched === ranked.market) return ranked;
+      changed = true;
+      return { ...ranked, market: patched };
+    });
+    return changed ? next : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Stream live ticker updates for the given markets into the query cache.
+ * Returns the connection status so callers can relax their polling.
+ */
+export function useMarketStream(tickers: string[]): StreamStatus {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = React.useState<StreamStatus>(() =>
+    getMarketStream().getStatus()
+  );
+
+  // Subscribe on the set of tickers, not the array identity
+  const tickerKey = [...new Set(tickers)].sort().join(",");
+
+  React.useEffect(() => getMarketStream().onStatus(setStatus), []);
+
+  React.useEffect(() => {
+    if (!tickerKey) return;
+
+    const pending = new Map<string, TickerUpdate>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      const updates = new Map(pending);
+      pending.clear();
+      queryClient.setQueriesData({ queryKey: ["kalshi"] }, (data: unknown) =>
+        patchCachedMarkets(data, updates)
+      );
+    };
+
+    const unsubscribe = getMarketStream().subscribe(
+      "ticker",
+      tickerKey.split(","),
+      (message) => {
+        if (message.type !== "ticker") return;
+        pending.set(message.msg.market_ticker, message.msg);
+        if (!timer) timer = setTimeout(flush, FLUSH_INTERVAL_MS);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [tickerKey, queryClient]);
+
+  return status;
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface NewsFeedsState {
+  feeds: string[]; // RSS or Atom URLs
+  addFeed: (url: string) => void;
+  removeFeed: (url: string) => void;
+}
+
+/**
+ * News feeds the correlation pipeline reads, kept in localStorage
+ */
+export const useNewsFeeds = create<NewsFeedsState>()(
+  persist(
+    (set) => ({
+      feeds: [],
+      addFeed: (url) =>
+        set((state) => (state.feeds.includes(url) ? state : { feeds: [...state.feeds, url] })),
+      removeFeed: (url) => set((state) => ({ feeds: state.feeds.filter((f) => f !== url) })),
+    }),
+    { name: "kalshiai-news", skipHydration: true }
+  )
+);
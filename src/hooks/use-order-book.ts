@@ -0,0 +1,56 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { marketsApi } from "@/lib/kalshi/client";
+import { getMarketStream } from "@/lib/kalshi/stream";
+import {
+  createOrderBookState,
+  orderBookFromSnapshot,
+  applyOrderBookDelta,
+  type OrderBookState,
+} from "@/lib/kalshi/orderbook";
+
+/**
+ * A market's order book, polled over REST and kept live from streamed
+ * snapshots and deltas whenever the stream is connected
+ */
+export function useOrderBook(ticker: string) {
+  // Tagged with the ticker so a stale book never shows for a new market
+  const [live, setLive] = React.useState<{ ticker: string; book: OrderBookState } | null>(null);
+
+  React.useEffect(() => {
+    return getMarketStream().subscribe("orderbook_delta", [ticker], (message) => {
+      if (message.type === "orderbook_snapshot") {
+        setLive({ ticker, book: orderBookFromSnapshot(message.msg, message.seq) });
+      } else if (message.type === "orderbook_delta") {
+        setLive((current) => {
+          if (!current || current.ticker !== ticker) return current;
+          try {
+            return { ticker, book: applyOrderBookDelta(current.book, message.msg, message.seq) };
+          } catch {
+            // Out of sequence: fall back to polling until the next snapshot
+            return null;
+          }
+        });
+      }
+    });
+  }, [ticker]);
+
+  const liveBook = live?.ticker === ticker ? live.book : null;
+
+  const query = useQuery({
+    queryKey: ["kalshi", "orderbook", ticker],
+    queryFn: () => marketsApi.getOrderBook(ticker),
+    select: createOrderBookState,
+    staleTime: 2 * 1000,
+    refetchInterval: liveBook ? false : 5 * 1000,
+  });
+
+  return {
+    book: liveBook ?? query.data,
+    isLive: liveBook !== null,
+    isLoading: !liveBook && query.isLoading,
+    error: liveBook ? null : query.error,
+  };
+}
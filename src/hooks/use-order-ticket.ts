@@ -0,0 +1,23 @@
+"use client";
+
+import { create } from "zustand";
+import type { Market, OrderSide } from "@/lib/kalshi/types";
+
+interface OrderTicketState {
+  market: Market | null;
+  side: OrderSide;
+  priceCents?: number; // Prefilled limit price, e.g. from an order book click
+  open: (market: Market, side: OrderSide, priceCents?: number) => void;
+  close: () => void;
+}
+
+/**
+ * Shared order ticket state so any market card can open the one drawer
+ */
+export const useOrderTicket = create<OrderTicketState>((set) => ({
+  market: null,
+  side: "yes",
+  priceCents: undefined,
+  open: (market, side, priceCents) => set({ market, side, priceCents }),
+  close: () => set({ market: null, priceCents: undefined }),
+}));
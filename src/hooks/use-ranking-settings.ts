@@ -0,0 +1,48 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_RANKING_ELIGIBILITY,
+  DEFAULT_RANKING_WEIGHTS,
+  type RankerId,
+  type RankingEligibility,
+  type RankingMetric,
+  type RankingWeights,
+} from "@/lib/kalshi/ranking";
+
+interface RankingSettingsState {
+  featuredStrategy: RankerId;
+  hotStrategy: RankerId;
+  weights: RankingWeights;
+  eligibility: RankingEligibility;
+  setFeaturedStrategy: (id: RankerId) => void;
+  setHotStrategy: (id: RankerId) => void;
+  setWeight: (metric: RankingMetric, weight: number) => void;
+  setEligibility: (eligibility: Partial<RankingEligibility>) => void;
+  resetCustomStrategy: () => void;
+}
+
+/**
+ * Dashboard ranking strategies and the custom strategy's weights and
+ * eligibility, kept in localStorage
+ */
+export const useRankingSettings = create<RankingSettingsState>()(
+  persist(
+    (set) => ({
+      featuredStrategy: "custom",
+      hotStrategy: "custom",
+      weights: DEFAULT_RANKING_WEIGHTS,
+      eligibility: DEFAULT_RANKING_ELIGIBILITY,
+      setFeaturedStrategy: (featuredStrategy) => set({ featuredStrategy }),
+      setHotStrategy: (hotStrategy) => set({ hotStrategy }),
+      setWeight: (metric, weight) =>
+        set((state) => ({ weights: { ...state.weights, [metric]: weight } })),
+      setEligibility: (eligibility) =>
+        set((state) => ({ eligibility: { ...state.eligibility, ...eligibility } })),
+      resetCustomStrategy: () =>
+        set({ weights: DEFAULT_RANKING_WEIGHTS, eligibility: DEFAULT_RANKING_ELIGIBILITY }),
+    }),
+    { name: "kalshiai-ranking", skipHydration: true }
+  )
+);
@@ -0,0 +1,32 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Screen } from "@/lib/kalshi/screener";
+
+interface SavedScreensState {
+  screens: Screen[];
+  save: (screen: Screen) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Screens saved from the screener, kept in localStorage
+ */
+export const useSavedScreens = create<SavedScreensState>()(
+  persist(
+    (set) => ({
+      screens: [],
+      save: (screen) =>
+        set((state) => ({
+          screens: [
+            { ...screen, updatedAt: new Date().toISOString() },
+            ...state.screens.filter((s) => s.id !== screen.id),
+          ],
+        })),
+      remove: (id) =>
+        set((state) => ({ screens: state.screens.filter((s) => s.id !== id) })),
+    }),
+    { name: "kalshiai-screens", skipHydration: true }
+  )
+);
@@ -0,0 +1,114 @@
+"use client";
+
+import * as React from "react";
+import { create } from "zustand";
+import { useQuery } from "@tanstack/react-query";
+import { kalshi, marketsApi } from "@/lib/kalshi/client";
+import {
+  detectOpenInterestJump,
+  detectWhaleTrades,
+  type OpenInterestSnapshot,
+  type WhaleSignal,
+} from "@/lib/kalshi/smart-money";
+import type { Market } from "@/lib/kalshi/types";
+
+// Most recent trades across every market, one request
+const TAPE_SIZE = 1000;
+const MAX_OI_SIGNALS = 100;
+
+interface OpenInterestState {
+  snapshots: Map<string, OpenInterestSnapshot>;
+  observedAt: string | null;
+  signals: WhaleSignal[]; // Newest first
+  observe: (markets: Market[], nowIso: string) => void;
+}
+
+// Open interest jumps need a baseline, so snapshots are kept for the session
+const useOpenInterestJumps = create<OpenInterestState>()((set, get) => ({
+  snapshots: new Map(),
+  observedAt: null,
+  signals: [],
+  observe: (markets, nowIso) => {
+    // Every page using the hook reports the same refresh
+    const { snapshots, observedAt } = get();
+    if (observedAt === nowIso) return;
+
+    const found: WhaleSignal[] = [];
+    const next = new Map(snapshots);
+
+    for (const market of markets) {
+      const previous = snapshots.get(market.ticker);
+      const jump = previous ? detectOpenInterestJump(previous, market, nowIso) : null;
+      if (jump) found.push(jump);
+      next.set(market.ticker, {
+        openInterest: market.open_interest,
+        lastPrice: market.last_price,
+        timestamp: nowIso,
+      });
+    }
+
+    set((state) => ({
+      snapshots: next,
+      observedAt: nowIso,
+      signals: [...found, ...state.signals].slice(0, MAX_OI_SIGNALS),
+    }));
+  },
+}));
+
+/**
+ * Whale signals from the public trade tape plus open interest jumps seen
+ * between refreshes of the open market universe
+ */
+export function useSmartMoney() {
+  const {
+    data: trades,
+    isLoading: isLoadingTape,
+    error: tapeError,
+  } = useQuery({
+    queryKey: ["kalshi", "trade-tape"],
+    queryFn: async () => (await marketsApi.getTradesPage({ limit: TAPE_SIZE })).trades,
+    staleTime: 15 * 1000,
+    refetchInterval: 30 * 1000,
+  });
+
+  // Not under "kalshi": stream patches there bump dataUpdatedAt several
+  // times a second, and each bump would reset the open interest baseline.
+  // Keyed apart, a snapshot is taken once per poll.
+  const {
+    data: markets,
+    isLoading: isLoadingMarkets,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: ["smart-money", "open-markets"],
+    queryFn: () => kalshi.getOpenMarkets(),
+    staleTime: 60 * 1000,
+    refetchInterval: 2 * 60 * 1000,
+  });
+
+  const observe = useOpenInterestJumps((state) => state.observe);
+  const oiSignals = useOpenInterestJumps((state) => state.signals);
+
+  React.useEffect(() => {
+    if (markets) observe(markets, new Date(dataUpdatedAt).toISOString());
+  }, [markets, dataUpdatedAt, observe]);
+
+  const signals = React.useMemo(
+    () =>
+      [...detectWhaleTrades(trades ?? []), ...oiSignals].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      ),
+    [trades, oiSignals]
+  );
+
+  const marketsByTicker = React.useMemo(
+    () => new Map((markets ?? []).map((m) => [m.ticker, m])),
+    [markets]
+  );
+
+  return {
+    signals,
+    marketsByTicker,
+    isLoading: isLoadingTape || isLoadingMarkets,
+    error: tapeError,
+  };
+}
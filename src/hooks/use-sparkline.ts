@@ -0,0 +1,17 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { loadSparklinePrices } from "@/lib/kalshi/price-history";
+
+/**
+ * Recent price history for a market card's sparkline.
+ * Requests from all mounted cards are batched into shared API calls.
+ */
+export function useSparkline(ticker: string) {
+  return useQuery({
+    queryKey: ["kalshi", "sparkline", ticker],
+    queryFn: () => loadSparklinePrices(ticker),
+    staleTime: 5 * 60 * 1000, // Hourly candles barely move within 5 minutes
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
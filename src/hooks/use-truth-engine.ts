@@ -0,0 +1,90 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { kalshi } from "@/lib/kalshi/client";
+import { createLlmModel } from "@/lib/kalshi/llm-model";
+import {
+  BASELINE_MODELS,
+  runProbabilityModel,
+  type ProbabilityModel,
+} from "@/lib/kalshi/truth-engine";
+import type { AIAnalysis, Market } from "@/lib/kalshi/types";
+import { latestByModel, useAIAnalyses } from "./use-ai-analyses";
+import { useHydratedStores } from "./use-hydrated-stores";
+
+// Estimates move slowly next to prices, and the LLM is expensive to call
+const ANALYSIS_STALE_MS = 5 * 60 * 1000;
+
+export interface ModelFailure {
+  modelId: string;
+  message: string;
+}
+
+/**
+ * Baseline models, plus the LLM when an endpoint is configured
+ */
+export function getProbabilityModels(llmUrl: string): ProbabilityModel[] {
+  return llmUrl ? [...BASELINE_MODELS, createLlmModel({ url: llmUrl })] : BASELINE_MODELS;
+}
+
+/**
+ * Run every configured model on a market. One model failing doesn't stop
+ * the others.
+ */
+export async function analyzeMarket(
+  market: Market,
+  llmUrl: string,
+  signal?: AbortSignal
+): Promise<{ analyses: AIAnalysis[]; failures: ModelFailure[] }> {
+  const context = await kalshi.getModelContext(market, { signal });
+  const models = getProbabilityModels(llmUrl);
+  const results = await Promise.allSettled(
+    models.map((model) => runProbabilityModel(model, market, context, { signal }))
+  );
+
+  const analyses: AIAnalysis[] = [];
+  const failures: ModelFailure[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      failures.push({
+        modelId: models[i].id,
+        message: result.reason instanceof Error ? result.reason.message : "Model failed",
+      });
+    } else if (result.value) {
+      analyses.push(result.value);
+    }
+  });
+  return { analyses, failures };
+}
+
+/**
+ * Run every probability model on a market and record the results.
+ * Returns the latest stored analysis per model, including earlier runs.
+ */
+export function useTruthEngine(market: Market | undefined) {
+  const llmUrl = useAIAnalyses((state) => state.llmUrl);
+  const record = useAIAnalyses((state) => state.record);
+  const history = useAIAnalyses((state) => (market ? state.byTicker[market.ticker] : undefined));
+
+  // Wait for the stored LLM endpoint so the first run includes it
+  const hydrated = useHydratedStores(useAIAnalyses);
+
+  const { data: failures, isFetching, refetch } = useQuery({
+    queryKey: ["kalshi", "truth-engine", market?.ticker, llmUrl],
+    queryFn: async ({ signal }) => {
+      const { analyses, failures } = await analyzeMarket(market!, llmUrl, signal);
+      analyses.forEach(record);
+      return failures;
+    },
+    enabled: !!market && hydrated,
+    staleTime: ANALYSIS_STALE_MS,
+  });
+
+  return {
+    analyses: latestByModel(history ?? []),
+    history: history ?? [],
+    failures: failures ?? [],
+    isRunning: isFetching,
+    run: refetch,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Candlestick helpers
+ * Maps Kalshi candlesticks into 0-1 probability space and builds candles from trades
+ */
+
+import type { Candlestick, CandlestickInterval, Trade, TradeUpdate } from "./types";
+import type { KalshiCandlestick } from "./schemas";
+
+/**
+ * Convert Kalshi candlesticks (cents) to our Candlestick type (0-1).
+ * Periods without trades have null prices, so we carry the last close
+ * forward and fall back to the yes bid/ask midpoint before the first trade.
+ */
+export function mapKalshiCandlesticks(
+  candlesticks: KalshiCandlestick[]
+): Candlestick[] {
+  let lastClose: number | undefined;
+
+  return candlesticks.flatMap((candle) => {
+    const { price, yes_bid, yes_ask } = candle;
+    const quoteMid =
+      yes_bid.close !== undefined && yes_ask.close !== undefined
+        ? (yes_bid.close + yes_ask.close) / 2
+        : undefined;
+    const fallback = lastClose ?? price.previous ?? quoteMid;
+
+    const close = price.close ?? fallback;
+    if (close === undefined) return [];
+
+    const open = price.open ?? fallback ?? close;
+    lastClose = close;
+
+    return [
+      {
+        open: open / 100,
+        high: (price.high ?? Math.max(open, close)) / 100,
+        low: (price.low ?? Math.min(open, close)) / 100,
+        close: close / 100,
+        volume: candle.volume,
+        timestamp: new Date(candle.end_period_ts * 1000).toISOString(),
+        yesBid: yes_bid.close !== undefined ? yes_bid.close / 100 : undefined,
+        yesAsk: yes_ask.close !== undefined ? yes_ask.close / 100 : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Build candles locally by bucketing trades into fixed periods.
+ * Empty periods after the first trade are filled flat at the previous close
+ * so charts don't show gaps.
+ */
+export function buildCandlesFromTrades(
+  trades: Trade[],
+  periodInterval: CandlestickInterval,
+  startTs: number,
+  endTs: number
+): Candlestick[] {
+  const periodSec = periodInterval * 60;
+  const buckets = new Map<number, Candlestick>();
+
+  // Trades arrive newest first, candles must be built oldest first
+  const sorted = [...trades].sort(
+    (a, b) =>
+      new Date(a.created_time).getTime() - new Date(b.created_time).getTime()
+  );
+
+  for (const trade of sorted) {
+    const ts = Math.floor(new Date(trade.created_time).getTime() / 1000);
+    if (ts < startTs || ts > endTs) continue;
+
+    // Kalshi candles are labelled by the end of their period
+    const periodEnd = (Math.floor(ts / periodSec) + 1) * periodSec;
+    const price = trade.yes_price / 100;
+    const candle = buckets.get(periodEnd);
+
+    if (candle) {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.volume += trade.count;
+    } else {
+      buckets.set(periodEnd, {
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: trade.count,
+        timestamp: new Date(periodEnd * 1000).toISOString(),
+      });
+    }
+  }
+
+  if (buckets.size === 0) return [];
+
+  const periods = [...buckets.keys()].sort((a, b) => a - b);
+  const candles: Candlestick[] = [];
+
+  for (
+    let period = periods[0];
+    period <= periods[periods.length - 1];
+    period += periodSec
+  ) {
+    const previous = candles[candles.length - 1];
+    candles.push(
+      buckets.get(period) ?? {
+        open: previous.close,
+        high: previous.close,
+        low: previous.close,
+        close: previous.close,
+        volume: 0,
+        timestamp: new Date(period * 1000).toISOString(),
+      }
+    );
+  }
+
+  return candles;
+}
+
+/**
+ * Fold one new trade into candles sorted oldest first, extending the last
+ * candle or opening a new period. Returns a new array.
+ */
+export function applyTradeToCandles(
+  candles: Candlestick[],
+  trade: Pick<TradeUpdate, "yes_price" | "count" | "ts">,
+  periodInterval: CandlestickInterval
+): Candlestick[] {
+  const periodSec = periodInterval * 60;
+  const periodEnd = (Math.floor(trade.ts / periodSec) + 1) * periodSec;
+  const price = trade.yes_price / 100;
+  const last = candles[candles.length - 1];
+  const lastEnd = last ? new Date(last.timestamp).getTime() / 1000 : 0;
+
+  // Trades older than the latest candle are already counted in it
+  if (periodEnd < lastEnd) return candles;
+
+  if (last && periodEnd === lastEnd) {
+    return [
+      ...candles.slice(0, -1),
+      {
+        ...last,
+        high: Math.max(last.high, price),
+        low: Math.min(last.low, price),
+        close: price,
+        volume: last.volume + trade.count,
+      },
+    ];
+  }
+
+  return [
+    ...candles,
+    {
+      open: last?.close ?? price,
+      high: Math.max(last?.close ?? price, price),
+      low: Math.min(last?.close ?? price, price),
+      close: price,
+      volume: trade.count,
+      timestamp: new Date(periodEnd * 1000).toISOString(),
+    },
+  ];
+}
+
+/**
+ * Kalshi event and market tickers start with their series ticker,
+ * e.g. KXCPI-25JAN-T0.3 -> KXCPI
+ */
+export function seriesTickerFromTicker(ticker: string): string {
+  return ticker.split("-")[0];
+}
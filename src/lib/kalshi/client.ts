@@ -3,16 +3,85 @@
  * Connects to Kalshi Trade API v2
  */
 
+import type { z } from "zod";
 import type {
   Market,
   Event,
   OrderBook,
   Trade,
   MarketFilters,
+  EventFilters,
+  TradeFilters,
+  TradesResponse,
+  Series,
+  SeriesFilters,
+  SeriesInstance,
+  Balance,
+  Fill,
+  Settlement,
+  PositionFilters,
+  PositionsResponse,
+  FillFilters,
+  FillsResponse,
+  SettlementFilters,
+  SettlementsResponse,
+  Order,
+  OrderFilters,
+  OrdersResponse,
+  CreateOrderRequest,
+  AmendOrderRequest,
+  AmendOrderResponse,
+  DecreaseOrderRequest,
+  CancelOrderResponse,
+  BatchOrderResult,
+  CandlestickHistory,
+  CandlestickOptions,
+  PaginationOptions,
+  TickerUpdate,
   MarketsResponse,
   EventsResponse,
-  TradesResponse,
 } from "./types";
+import {
+  marketsResponseSchema,
+  marketResponseSchema,
+  eventsResponseSchema,
+  eventResponseSchema,
+  orderBookResponseSchema,
+  seriesResponseSchema,
+  seriesListResponseSchema,
+  balanceSchema,
+  positionsResponseSchema,
+  fillsResponseSchema,
+  settlementsResponseSchema,
+  orderResponseSchema,
+  ordersResponseSchema,
+  amendOrderResponseSchema,
+  cancelOrderResponseSchema,
+  batchOrdersResponseSchema,
+  tradesResponseSchema,
+  candlesticksResponseSchema,
+  batchCandlesticksResponseSchema,
+  formatIssuePath,
+  reportUnknownFields,
+} from "./schemas";
+import {
+  mapKalshiCandlesticks,
+  buildCandlesFromTrades,
+  seriesTickerFromTicker,
+} from "./candles";
+import { buildSeriesInstances } from "./series";
+import { createOrderBookState, impliedAsks } from "./orderbook";
+import {
+  DEFAULT_RANKING_ELIGIBILITY,
+  DEFAULT_RANKING_WEIGHTS,
+  getRanker,
+  meetsEligibility,
+  rankMarkets,
+  type MarketRanker,
+  type RankedMarket,
+  type RankingEligibility,
+} from "./ranking";
+import type { ModelContext } from "./truth-engine";
 
 // Use proxy in production to avoid CORS issues
 const IS_BROWSER = typeof window !== "undefined";
@@ -25,28 +94,216 @@ class KalshiAPIError extends Error {
   constructor(
     message: string,
     public status?: number,
-    public code?: string
+    public code?: string,
+    public field?: string
   ) {
     super(message);
     this.name = "KalshiAPIError";
   }
 }
 
-interface RequestOptions {
+/**
+ * Retry policy for transient failures (network errors, 429 and 5xx)
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Longest wait between attempts; a longer Retry-After ends the retries
+  timeoutMs: number; // Per-attempt timeout
+  retryStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+  timeoutMs: 15 * 1000,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+/**
+ * Override the retry policy used by every client request
+ */
+export function configureRetryPolicy(policy: Partial<RetryPolicy>): RetryPolicy {
+  retryPolicy = { ...retryPolicy, ...policy };
+  return retryPolicy;
+}
+
+/**
+ * Per-call options accepted by the public API methods
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface RequestOptions<T> extends CallOptions {
   method?: "GET" | "POST" | "PUT" | "DELETE";
   body?: unknown;
   headers?: Record<string, string>;
   cache?: RequestCache;
   next?: { revalidate?: number; tags?: string[] };
+  retry?: Partial<RetryPolicy> | false;
+  schema?: z.ZodType<T>;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Sleep that wakes early (and rejects) when the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new KalshiAPIError("Request aborted", undefined, "ABORTED"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new KalshiAPIError("Request aborted", undefined, "ABORTED"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Perform a single fetch attempt bounded by a timeout and the caller's
+ * signal. The body is read inside the bound too, so a stalled body times
+ * out like stalled headers.
+ */
+async function fetchWithTimeout(
+  url: string,
+  config: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; text: string }> {
+  // An already-aborted signal never fires its listener, so check up front
+  if (signal?.aborted) {
+    throw new KalshiAPIError("Request aborted", undefined, "ABORTED");
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...config, signal: controller.signal });
+    return { response, text: await response.text() };
+  } catch (error) {
+    if (timedOut) {
+      throw new KalshiAPIError(
+        `Request timed out after ${timeoutMs}ms`,
+        undefined,
+        "TIMEOUT"
+      );
+    }
+    if (signal?.aborted) {
+      throw new KalshiAPIError("Request aborted", undefined, "ABORTED");
+    }
+    throw new KalshiAPIError(
+      `Network error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      undefined,
+      "NETWORK_ERROR"
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * The route a path was built from, such as `/markets/{ticker}/orderbook`.
+ * Static segments are lowercase words; anything else is a ticker or id.
+ */
+function routeTemplate(path: string): string {
+  return path
+    .split("/")
+    .map((segment, i, all) => {
+      if (!segment || /^[a-z_]+$/.test(segment)) return segment;
+      return all[i - 1] === "orders" ? "{order_id}" : "{ticker}";
+    })
+    .join("/");
+}
+
+/**
+ * Validate a response payload, pointing at the first failing field
+ */
+function parseResponse<T>(schema: z.ZodType<T>, data: unknown, path: string): T {
+  const source = path.split("?")[0];
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = formatIssuePath(issue.path);
+    throw new KalshiAPIError(
+      `Invalid API response from ${source} at ${field || "<root>"}: ${issue.message}`,
+      undefined,
+      "SCHEMA_MISMATCH",
+      field
+    );
+  }
+
+  // Keyed on the route so each new field is reported once, not once per market
+  reportUnknownFields(schema, data, routeTemplate(source));
+  return result.data;
 }
 
 async function request<T>(
   baseUrl: string,
   path: string,
-  options: RequestOptions = {}
+  options: RequestOptions<T> = {}
 ): Promise<T> {
   const url = `${baseUrl}${path}`;
-  const { method = "GET", body, headers = {}, cache, next } = options;
+  const {
+    method = "GET",
+    body,
+    headers = {},
+    cache,
+    next,
+    signal,
+    timeoutMs,
+    retry,
+    schema,
+  } = options;
+
+  const policy: RetryPolicy = {
+    ...retryPolicy,
+    ...(retry === false ? { maxRetries: 0 } : retry),
+  };
 
   const config: RequestInit = {
     method,
@@ -62,93 +319,422 @@ async function request<T>(
     config.body = JSON.stringify(body);
   }
 
-  try {
-    const response = await fetch(url, config);
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    let text: string;
 
-    if (!response.ok) {
-      throw new KalshiAPIError(
-        `API request failed: ${response.statusText}`,
-        response.status
-      );
+    try {
+      ({ response, text } = await fetchWithTimeout(
+        url,
+        config,
+        timeoutMs ?? policy.timeoutMs,
+        signal
+      ));
+    } catch (error) {
+      // Only GETs are retried after a network failure, a write may have landed
+      const retryable =
+        error instanceof KalshiAPIError &&
+        error.code !== "ABORTED" &&
+        method === "GET";
+      if (!retryable || attempt >= policy.maxRetries) throw error;
+
+      await delay(backoffDelay(attempt, policy), signal);
+      continue;
     }
 
-    const data = await response.json();
-    return data as T;
-  } catch (error) {
-    if (error instanceof KalshiAPIError) {
-      throw error;
+    if (response.ok) {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        throw new KalshiAPIError(
+          "Invalid JSON in API response",
+          response.status,
+          "INVALID_RESPONSE"
+        );
+      }
+      return schema ? parseResponse(schema, data, path) : (data as T);
     }
-    throw new KalshiAPIError(
-      `Network error: ${error instanceof Error ? error.message : "Unknown error"}`
+
+    const error = new KalshiAPIError(
+      `API request failed: ${response.statusText}`,
+      response.status,
+      response.status === 429 ? "RATE_LIMITED" : "HTTP_ERROR"
     );
+
+    // A 429 was rejected before execution, so it is always safe to resend.
+    // Other statuses are only retried for idempotent reads.
+    const retryable =
+      policy.retryStatuses.includes(response.status) &&
+      (method === "GET" || response.status === 429);
+    if (!retryable || attempt >= policy.maxRetries) throw error;
+
+    // Retry-After is a floor: waiting less would only earn another rejection.
+    // A server asking for longer than the policy allows ends the retries.
+    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) throw error;
+
+    await delay(retryAfterMs ?? backoffDelay(attempt, policy), signal);
   }
 }
 
+// Kalshi caps list endpoints at 1000 items per page
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_MAX_PAGES = 10;
+const MAX_BATCH_TICKERS = 100;
+// Positions and settlements pages are capped lower than market listings
+const MAX_POSITIONS_PAGE_SIZE = 200;
+
+/**
+ * Walk a cursor-paginated endpoint page by page.
+ * Kalshi signals the last page with an empty or missing cursor.
+ */
+async function* walkPages<P extends { cursor?: string }>(
+  fetchPage: (cursor?: string) => Promise<P>,
+  startCursor?: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): AsyncGenerator<P> {
+  let cursor = startCursor;
+
+  for (let page = 0; page < maxPages; page++) {
+    const response = await fetchPage(cursor);
+    yield response;
+
+    if (!response.cursor || response.cursor === cursor) return;
+    cursor = response.cursor;
+  }
+}
+
+/**
+ * Collect items from a paginated endpoint until exhausted or a cap is hit
+ */
+async function collectPages<P extends { cursor?: string }, T>(
+  pages: AsyncGenerator<P>,
+  select: (page: P) => T[],
+  maxItems: number = Infinity
+): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const page of pages) {
+    items.push(...select(page));
+    if (items.length >= maxItems) break;
+  }
+
+  return items.slice(0, maxItems);
+}
+
+// Statuses meaning the endpoint itself is missing or down, not the request
+const ENDPOINT_UNAVAILABLE_STATUSES = [404, 501, 503];
+
+/**
+ * Whether a failure warrants a fallback to another endpoint. Rate limits,
+ * timeouts and schema mismatches are rethrown: falling back would turn a
+ * 429 into a storm of requests and hide a changed response shape.
+ */
+function isEndpointUnavailable(error: unknown): boolean {
+  return (
+    error instanceof KalshiAPIError &&
+    error.code === "HTTP_ERROR" &&
+    error.status !== undefined &&
+    ENDPOINT_UNAVAILABLE_STATUSES.includes(error.status)
+  );
+}
+
 /**
  * Kalshi Markets API
  */
 export const marketsApi = {
   /**
-   * Get all markets with optional filters
+   * Get a single page of markets with optional filters
+   */
+  async getMarkets(
+    filters?: MarketFilters,
+    options?: CallOptions
+  ): Promise<Market[]> {
+    const response = await marketsApi.getMarketsPage(filters, options);
+    return response.markets;
+  },
+
+  /**
+   * Get a single page of markets along with the cursor for the next page
    */
-  async getMarkets(filters?: MarketFilters): Promise<Market[]> {
+  async getMarketsPage(
+    filters?: MarketFilters,
+    options?: CallOptions
+  ): Promise<MarketsResponse> {
     const params = new URLSearchParams();
 
     if (filters?.status) params.set("status", filters.status);
     if (filters?.series_ticker) params.set("series_ticker", filters.series_ticker);
     if (filters?.event_ticker) params.set("event_ticker", filters.event_ticker);
+    if (filters?.tickers?.length) params.set("tickers", filters.tickers.join(","));
+    if (filters?.min_close_ts) params.set("min_close_ts", String(filters.min_close_ts));
+    if (filters?.max_close_ts) params.set("max_close_ts", String(filters.max_close_ts));
     if (filters?.limit) params.set("limit", String(filters.limit));
     if (filters?.cursor) params.set("cursor", filters.cursor);
 
     const query = params.toString();
     const path = `/markets${query ? `?${query}` : ""}`;
 
-    const response = await request<MarketsResponse>(KALSHI_API_URL, path, {
+    const response = await request(KALSHI_API_URL, path, {
       cache: "no-store",
+      schema: marketsResponseSchema,
+      ...options,
     });
 
-    return response.markets || [];
+    return {
+      markets: response.markets,
+      cursor: response.cursor || undefined,
+    };
   },
 
   /**
-   * Get a single market by ticker
+   * Iterate over every page of markets matching the filters
    */
-  async getMarket(ticker: string): Promise<Market> {
-    const response = await request<{ market: Market }>(
-      KALSHI_API_URL,
-      `/markets/${ticker}`,
-      { cache: "no-store" }
+  iterateMarketPages(
+    filters?: MarketFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): AsyncGenerator<MarketsResponse> {
+    const { maxPages, ...callOptions } = options;
+
+    return walkPages(
+      (cursor) =>
+        marketsApi.getMarketsPage(
+          { limit: MAX_PAGE_SIZE, ...filters, cursor },
+          callOptions
+        ),
+      filters?.cursor,
+      maxPages
     );
+  },
+
+  /**
+   * Fetch all markets matching the filters, up to the given caps
+   */
+  async getAllMarkets(
+    filters?: MarketFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<Market[]> {
+    return collectPages(
+      marketsApi.iterateMarketPages(filters, options),
+      (page) => page.markets,
+      options.maxItems
+    );
+  },
+
+  /**
+   * Get a single market by ticker
+   */
+  async getMarket(ticker: string, options?: CallOptions): Promise<Market> {
+    const response = await request(KALSHI_API_URL, `/markets/${ticker}`, {
+      cache: "no-store",
+      schema: marketResponseSchema,
+      ...options,
+    });
     return response.market;
   },
 
   /**
    * Get order book for a market
    */
-  async getOrderBook(ticker: string): Promise<OrderBook> {
-    const response = await request<{ orderbook: OrderBook }>(
+  async getOrderBook(ticker: string, options?: CallOptions): Promise<OrderBook> {
+    const response = await request(
       KALSHI_API_URL,
       `/markets/${ticker}/orderbook`,
-      { cache: "no-store" }
+      { cache: "no-store", schema: orderBookResponseSchema, ...options }
     );
-    return response.orderbook;
+    const book = createOrderBookState({ ticker, ...response.orderbook });
+    return { ...book, bids: book.yes, asks: impliedAsks(book, "yes") };
   },
 
   /**
    * Get trades for a market
    */
-  async getTrades(ticker: string, limit?: number): Promise<Trade[]> {
+  async getTrades(
+    ticker: string,
+    limit?: number,
+    options?: CallOptions
+  ): Promise<Trade[]> {
     const params = new URLSearchParams();
     if (limit) params.set("limit", String(limit));
 
     const query = params.toString();
     const path = `/markets/${ticker}/trades${query ? `?${query}` : ""}`;
 
-    const response = await request<TradesResponse>(KALSHI_API_URL, path, {
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: tradesResponseSchema,
+      ...options,
+    });
+
+    return response.trades;
+  },
+
+  /**
+   * Get a single page of trades across markets, filtered by ticker and time
+   */
+  async getTradesPage(
+    filters?: TradeFilters,
+    options?: CallOptions
+  ): Promise<TradesResponse> {
+    const params = new URLSearchParams();
+
+    if (filters?.ticker) params.set("ticker", filters.ticker);
+    if (filters?.min_ts) params.set("min_ts", String(filters.min_ts));
+    if (filters?.max_ts) params.set("max_ts", String(filters.max_ts));
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
+
+    const query = params.toString();
+    const path = `/markets/trades${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
       cache: "no-store",
+      schema: tradesResponseSchema,
+      ...options,
     });
 
-    return response.trades || [];
+    return {
+      trades: response.trades,
+      cursor: response.cursor || undefined,
+    };
+  },
+
+  /**
+   * Fetch all trades matching the filters, up to the given caps
+   */
+  async getAllTrades(
+    filters?: TradeFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<Trade[]> {
+    const { maxPages, maxItems, ...callOptions } = options;
+
+    return collectPages(
+      walkPages(
+        (cursor) =>
+          marketsApi.getTradesPage(
+            { limit: MAX_PAGE_SIZE, ...filters, cursor },
+            callOptions
+          ),
+        filters?.cursor,
+        maxPages
+      ),
+      (page) => page.trades,
+      maxItems
+    );
+  },
+
+  /**
+   * Get price history for a market as candlesticks in 0-1 probability space.
+   * Falls back to building candles from the trade tape when the
+   * candlesticks endpoint is unavailable (404, 501 or 503).
+   */
+  async getCandlesticks(
+    ticker: string,
+    candleOptions: CandlestickOptions,
+    options?: CallOptions
+  ): Promise<CandlestickHistory> {
+    const { periodInterval, startTs, endTs } = candleOptions;
+    const seriesTicker =
+      candleOptions.seriesTicker ?? seriesTickerFromTicker(ticker);
+
+    const params = new URLSearchParams({
+      start_ts: String(startTs),
+      end_ts: String(endTs),
+      period_interval: String(periodInterval),
+    });
+    const path = `/series/${seriesTicker}/markets/${ticker}/candlesticks?${params}`;
+
+    try {
+      const response = await request(KALSHI_API_URL, path, {
+        cache: "no-store",
+        schema: candlesticksResponseSchema,
+        ...options,
+      });
+
+      return {
+        ticker,
+        periodInterval,
+        candlesticks: mapKalshiCandlesticks(response.candlesticks),
+        source: "candlesticks",
+      };
+    } catch (error) {
+      if (!isEndpointUnavailable(error)) throw error;
+
+      const trades = await marketsApi.getAllTrades(
+        { ticker, min_ts: startTs, max_ts: endTs },
+        options
+      );
+
+      return {
+        ticker,
+        periodInterval,
+        candlesticks: buildCandlesFromTrades(trades, periodInterval, startTs, endTs),
+        source: "trades",
+      };
+    }
+  },
+
+  /**
+   * Get candlesticks for many markets in as few requests as possible.
+   * Kalshi's batch endpoint takes up to 100 tickers per call; if it is
+   * unavailable we fall back to fetching each market individually.
+   */
+  async getBatchCandlesticks(
+    tickers: string[],
+    candleOptions: Omit<CandlestickOptions, "seriesTicker">,
+    options?: CallOptions
+  ): Promise<CandlestickHistory[]> {
+    const { periodInterval, startTs, endTs } = candleOptions;
+    const chunks: string[][] = [];
+    for (let i = 0; i < tickers.length; i += MAX_BATCH_TICKERS) {
+      chunks.push(tickers.slice(i, i + MAX_BATCH_TICKERS));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (chunk) => {
+        const params = new URLSearchParams({
+          market_tickers: chunk.join(","),
+          start_ts: String(startTs),
+          end_ts: String(endTs),
+          period_interval: String(periodInterval),
+        });
+
+        try {
+          const response = await request(
+            KALSHI_API_URL,
+            `/markets/candlesticks?${params}`,
+            {
+              cache: "no-store",
+              schema: batchCandlesticksResponseSchema,
+              ...options,
+            }
+          );
+
+          const byTicker = new Map(
+            response.markets.map((m) => [m.market_ticker, m.candlesticks])
+          );
+
+          return chunk.map(
+            (ticker): CandlestickHistory => ({
+              ticker,
+              periodInterval,
+              candlesticks: mapKalshiCandlesticks(byTicker.get(ticker) ?? []),
+              source: "candlesticks",
+            })
+          );
+        } catch (error) {
+          if (!isEndpointUnavailable(error)) throw error;
+          return Promise.all(
+            chunk.map((ticker) =>
+              marketsApi.getCandlesticks(ticker, candleOptions, options)
+            )
+          );
+        }
+      })
+    );
+
+    return results.flat();
   },
 };
 
@@ -157,32 +743,484 @@ export const marketsApi = {
  */
 export const eventsApi = {
   /**
-   * Get all events
+   * Get a single page of events
    */
-  async getEvents(limit?: number): Promise<Event[]> {
+  async getEvents(limit?: number, options?: CallOptions): Promise<Event[]> {
+    const response = await eventsApi.getEventsPage({ limit }, options);
+    return response.events;
+  },
+
+  /**
+   * Get a single page of events along with the cursor for the next page
+   */
+  async getEventsPage(
+    filters?: EventFilters,
+    options?: CallOptions
+  ): Promise<EventsResponse> {
     const params = new URLSearchParams();
-    if (limit) params.set("limit", String(limit));
+
+    if (filters?.status) params.set("status", filters.status);
+    if (filters?.series_ticker) params.set("series_ticker", filters.series_ticker);
+    if (filters?.with_nested_markets) params.set("with_nested_markets", "true");
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
 
     const query = params.toString();
     const path = `/events${query ? `?${query}` : ""}`;
 
-    const response = await request<EventsResponse>(KALSHI_API_URL, path, {
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: eventsResponseSchema,
+      ...options,
+    });
+
+    return {
+      events: response.events,
+      cursor: response.cursor || undefined,
+    };
+  },
+
+  /**
+   * Iterate over every page of events matching the filters
+   */
+  iterateEventPages(
+    filters?: EventFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): AsyncGenerator<EventsResponse> {
+    const { maxPages, ...callOptions } = options;
+    // Events with nested markets are heavy, Kalshi caps those pages at 200
+    const pageSize = filters?.with_nested_markets ? 200 : MAX_PAGE_SIZE;
+
+    return walkPages(
+      (cursor) =>
+        eventsApi.getEventsPage(
+          { limit: pageSize, ...filters, cursor },
+          callOptions
+        ),
+      filters?.cursor,
+      maxPages
+    );
+  },
+
+  /**
+   * Fetch all events matching the filters, up to the given caps
+   */
+  async getAllEvents(
+    filters?: EventFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<Event[]> {
+    return collectPages(
+      eventsApi.iterateEventPages(filters, options),
+      (page) => page.events,
+      options.maxItems
+    );
+  },
+
+  /**
+   * Get a single event by ticker, with its markets
+   */
+  async getEvent(eventTicker: string, options?: CallOptions): Promise<Event> {
+    const response = await request(KALSHI_API_URL, `/events/${eventTicker}`, {
+      cache: "no-store",
+      schema: eventResponseSchema,
+      ...options,
+    });
+    // Markets come back alongside the event rather than nested in it
+    return {
+      ...response.event,
+      markets: response.event.markets ?? response.markets,
+    };
+  },
+};
+
+/**
+ * Kalshi Series API
+ */
+export const seriesApi = {
+  /**
+   * Get a single series by ticker
+   */
+  async getSeries(seriesTicker: string, options?: CallOptions): Promise<Series> {
+    const response = await request(KALSHI_API_URL, `/series/${seriesTicker}`, {
+      cache: "no-store",
+      schema: seriesResponseSchema,
+      ...options,
+    });
+    return response.series;
+  },
+
+  /**
+   * List series, optionally filtered by category or tags
+   */
+  async listSeries(
+    filters?: SeriesFilters,
+    options?: CallOptions
+  ): Promise<Series[]> {
+    const params = new URLSearchParams();
+
+    if (filters?.category) params.set("category", filters.category);
+    if (filters?.tags) params.set("tags", filters.tags);
+
+    const query = params.toString();
+    const path = `/series${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: seriesListResponseSchema,
+      ...options,
+    });
+
+    return response.series;
+  },
+};
+
+/**
+ * Kalshi Portfolio API
+ * Authenticated endpoints, only available through the signing proxy
+ */
+export const portfolioApi = {
+  /**
+   * Get available cash and portfolio value (cents)
+   */
+  async getBalance(options?: CallOptions): Promise<Balance> {
+    return request(KALSHI_API_URL, "/portfolio/balance", {
+      cache: "no-store",
+      schema: balanceSchema,
+      ...options,
+    });
+  },
+
+  /**
+   * Get a single page of market and event positions
+   */
+  async getPositions(
+    filters?: PositionFilters,
+    options?: CallOptions
+  ): Promise<PositionsResponse> {
+    const params = new URLSearchParams();
+
+    if (filters?.ticker) params.set("ticker", filters.ticker);
+    if (filters?.event_ticker) params.set("event_ticker", filters.event_ticker);
+    if (filters?.count_filter) params.set("count_filter", filters.count_filter);
+    if (filters?.settlement_status) params.set("settlement_status", filters.settlement_status);
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
+
+    const query = params.toString();
+    const path = `/portfolio/positions${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: positionsResponseSchema,
+      ...options,
+    });
+
+    return {
+      market_positions: response.market_positions,
+      event_positions: response.event_positions,
+      cursor: response.cursor || undefined,
+    };
+  },
+
+  /**
+   * Walk every page of positions, merging market and event positions
+   */
+  async getAllPositions(
+    filters?: PositionFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<PositionsResponse> {
+    const { maxPages, ...callOptions } = options;
+    const result: PositionsResponse = { market_positions: [], event_positions: [] };
+
+    for await (const page of walkPages(
+      (cursor) =>
+        portfolioApi.getPositions(
+          { limit: MAX_POSITIONS_PAGE_SIZE, ...filters, cursor },
+          callOptions
+        ),
+      filters?.cursor,
+      maxPages
+    )) {
+      result.market_positions.push(...page.market_positions);
+      result.event_positions.push(...page.event_positions);
+    }
+
+    return result;
+  },
+
+  /**
+   * Get a single page of fills (executed trades on our orders)
+   */
+  async getFills(
+    filters?: FillFilters,
+    options?: CallOptions
+  ): Promise<FillsResponse> {
+    const params = new URLSearchParams();
+
+    if (filters?.ticker) params.set("ticker", filters.ticker);
+    if (filters?.order_id) params.set("order_id", filters.order_id);
+    if (filters?.min_ts) params.set("min_ts", String(filters.min_ts));
+    if (filters?.max_ts) params.set("max_ts", String(filters.max_ts));
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
+
+    const query = params.toString();
+    const path = `/portfolio/fills${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: fillsResponseSchema,
+      ...options,
+    });
+
+    return {
+      fills: response.fills,
+      cursor: response.cursor || undefined,
+    };
+  },
+
+  /**
+   * Fetch all fills matching the filters, up to the given caps
+   */
+  async getAllFills(
+    filters?: FillFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<Fill[]> {
+    const { maxPages, maxItems, ...callOptions } = options;
+
+    return collectPages(
+      walkPages(
+        (cursor) =>
+          portfolioApi.getFills(
+            { limit: MAX_PAGE_SIZE, ...filters, cursor },
+            callOptions
+          ),
+        filters?.cursor,
+        maxPages
+      ),
+      (page) => page.fills,
+      maxItems
+    );
+  },
+
+  /**
+   * Get a single page of settlements for markets we held
+   */
+  async getSettlements(
+    filters?: SettlementFilters,
+    options?: CallOptions
+  ): Promise<SettlementsResponse> {
+    const params = new URLSearchParams();
+
+    if (filters?.ticker) params.set("ticker", filters.ticker);
+    if (filters?.event_ticker) params.set("event_ticker", filters.event_ticker);
+    if (filters?.min_ts) params.set("min_ts", String(filters.min_ts));
+    if (filters?.max_ts) params.set("max_ts", String(filters.max_ts));
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
+
+    const query = params.toString();
+    const path = `/portfolio/settlements${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
       cache: "no-store",
+      schema: settlementsResponseSchema,
+      ...options,
+    });
+
+    return {
+      settlements: response.settlements,
+      cursor: response.cursor || undefined,
+    };
+  },
+
+  /**
+   * Fetch all settlements matching the filters, up to the given caps
+   */
+  async getAllSettlements(
+    filters?: SettlementFilters,
+    options: PaginationOptions & CallOptions = {}
+  ): Promise<Settlement[]> {
+    const { maxPages, maxItems, ...callOptions } = options;
+
+    return collectPages(
+      walkPages(
+        (cursor) =>
+          portfolioApi.getSettlements(
+            { limit: MAX_POSITIONS_PAGE_SIZE, ...filters, cursor },
+            callOptions
+          ),
+        filters?.cursor,
+        maxPages
+      ),
+      (page) => page.settlements,
+      maxItems
+    );
+  },
+};
+
+// Kalshi accepts at most 20 orders per batch call
+const MAX_BATCH_ORDERS = 20;
+
+/**
+ * Reject malformed orders before they reach the exchange
+ */
+function validateOrder(order: CreateOrderRequest): void {
+  const fail = (message: string) => {
+    throw new KalshiAPIError(message, undefined, "INVALID_ORDER");
+  };
+
+  if (!Number.isInteger(order.count) || order.count < 1) {
+    fail("Order count must be a positive whole number of contracts");
+  }
+
+  const prices = [order.yes_price, order.no_price].filter(
+    (p): p is number => p !== undefined
+  );
+  if (prices.length > 1) {
+    fail("Set only one of yes_price or no_price");
+  }
+  if (order.type === "limit" && prices.length === 0) {
+    fail("Limit orders need a yes_price or no_price");
+  }
+  if (prices.some((p) => !Number.isInteger(p) || p < 1 || p > 99)) {
+    fail("Order prices must be whole cents between 1 and 99");
+  }
+}
+
+/**
+ * Fill in a client order id so a resent order can be deduplicated by Kalshi
+ */
+function withClientOrderId(order: CreateOrderRequest): CreateOrderRequest {
+  validateOrder(order);
+  return { ...order, client_order_id: order.client_order_id ?? crypto.randomUUID() };
+}
+
+/**
+ * Kalshi Orders API
+ * Authenticated endpoints, only available through the signing proxy
+ */
+export const ordersApi = {
+  /**
+   * Place a limit or market order
+   */
+  async createOrder(
+    order: CreateOrderRequest,
+    options?: CallOptions
+  ): Promise<Order> {
+    const response = await request(KALSHI_API_URL, "/portfolio/orders", {
+      method: "POST",
+      body: withClientOrderId(order),
+      schema: orderResponseSchema,
+      ...options,
     });
+    return response.order;
+  },
+
+  /**
+   * Place several orders at once, results are returned in request order
+   */
+  async batchCreateOrders(
+    orders: CreateOrderRequest[],
+    options?: CallOptions
+  ): Promise<BatchOrderResult[]> {
+    const prepared = orders.map(withClientOrderId);
+    const results: BatchOrderResult[] = [];
+
+    for (let i = 0; i < prepared.length; i += MAX_BATCH_ORDERS) {
+      const response = await request(KALSHI_API_URL, "/portfolio/orders/batched", {
+        method: "POST",
+        body: { orders: prepared.slice(i, i + MAX_BATCH_ORDERS) },
+        schema: batchOrdersResponseSchema,
+        ...options,
+      });
+      results.push(...response.orders);
+    }
 
-    return response.events || [];
+    return results;
   },
 
   /**
-   * Get a single event by ticker
+   * Change the price and/or size of a resting order
    */
-  async getEvent(eventTicker: string): Promise<Event> {
-    const response = await request<{ event: Event }>(
+  async amendOrder(
+    orderId: string,
+    amendment: AmendOrderRequest,
+    options?: CallOptions
+  ): Promise<AmendOrderResponse> {
+    return request(KALSHI_API_URL, `/portfolio/orders/${orderId}/amend`, {
+      method: "POST",
+      body: amendment,
+      schema: amendOrderResponseSchema,
+      ...options,
+    });
+  },
+
+  /**
+   * Reduce a resting order's remaining size without losing queue position
+   */
+  async decreaseOrder(
+    orderId: string,
+    decrease: DecreaseOrderRequest,
+    options?: CallOptions
+  ): Promise<Order> {
+    const response = await request(
       KALSHI_API_URL,
-      `/events/${eventTicker}`,
-      { cache: "no-store" }
+      `/portfolio/orders/${orderId}/decrease`,
+      {
+        method: "POST",
+        body: decrease,
+        schema: orderResponseSchema,
+        ...options,
+      }
     );
-    return response.event;
+    return response.order;
+  },
+
+  /**
+   * Cancel a resting order
+   */
+  async cancelOrder(
+    orderId: string,
+    options?: CallOptions
+  ): Promise<CancelOrderResponse> {
+    return request(KALSHI_API_URL, `/portfolio/orders/${orderId}`, {
+      method: "DELETE",
+      schema: cancelOrderResponseSchema,
+      ...options,
+    });
+  },
+
+  /**
+   * Get a single page of our orders
+   */
+  async getOrders(
+    filters?: OrderFilters,
+    options?: CallOptions
+  ): Promise<OrdersResponse> {
+    const params = new URLSearchParams();
+
+    if (filters?.ticker) params.set("ticker", filters.ticker);
+    if (filters?.event_ticker) params.set("event_ticker", filters.event_ticker);
+    if (filters?.status) params.set("status", filters.status);
+    if (filters?.min_ts) params.set("min_ts", String(filters.min_ts));
+    if (filters?.max_ts) params.set("max_ts", String(filters.max_ts));
+    if (filters?.limit) params.set("limit", String(filters.limit));
+    if (filters?.cursor) params.set("cursor", filters.cursor);
+
+    const query = params.toString();
+    const path = `/portfolio/orders${query ? `?${query}` : ""}`;
+
+    const response = await request(KALSHI_API_URL, path, {
+      cache: "no-store",
+      schema: ordersResponseSchema,
+      ...options,
+    });
+
+    return {
+      orders: response.orders,
+      cursor: response.cursor || undefined,
+    };
   },
 };
 
@@ -190,7 +1228,7 @@ export const eventsApi = {
  * Normalize market data for UI compatibility
  * Converts Kalshi format to our standardized format
  */
-function normalizeMarket(market: Market): Market {
+export function normalizeMarket(market: Market): Market {
   // Kalshi prices are in cents (0-100), convert to decimal (0-1)
   const yesPrice = market.yes_ask / 100;
   const noPrice = market.no_ask / 100;
@@ -218,14 +1256,129 @@ function normalizeMarket(market: Market): Market {
 }
 
 /**
- * Filter for valid, active markets
+ * Apply a streamed ticker update to a normalized market.
+ * Returns the same object when nothing visible changed.
+ */
+export function applyTickerUpdate(market: Market, update: TickerUpdate): Market {
+  // Ticker messages only carry the yes side; no is its complement
+  const next = {
+    yes_bid: update.yes_bid,
+    yes_ask: update.yes_ask,
+    no_bid: 100 - update.yes_ask,
+    no_ask: 100 - update.yes_bid,
+    last_price: update.price,
+    volume: update.volume ?? market.volume,
+    open_interest: update.open_interest ?? market.open_interest,
+  };
+
+  const unchanged = (Object.keys(next) as (keyof typeof next)[]).every(
+    (key) => market[key] === next[key]
+  );
+  if (unchanged) return market;
+
+  return normalizeMarket({ ...market, ...next });
+}
+
+// Open markets are shared by all ranking helpers, so a dashboard refresh
+// walks the universe once rather than once per section
+const UNIVERSE_TTL_MS = 30 * 1000;
+
+// Pages of up to 1000 markets walked before the universe is reported
+// incomplete. A guard against a cursor that never ends rather than a
+// measured size, so raise it with configureUniverseMaxPages if needed.
+export const DEFAULT_UNIVERSE_MAX_PAGES = 50;
+
+let universeMaxPages = DEFAULT_UNIVERSE_MAX_PAGES;
+
+/**
+ * Override how many pages the open market universe walk may fetch
+ */
+export function configureUniverseMaxPages(maxPages: number): number {
+  universeMaxPages = maxPages;
+  openUniverse = null;
+  return universeMaxPages;
+}
+
+export interface OpenMarketUniverse {
+  markets: Market[];
+  complete: boolean; // False when the page cap stopped the walk before the last cursor
+}
+
+let openUniverse: { fetchedAt: number; universe: Promise<OpenMarketUniverse> } | null = null;
+
+async function walkOpenMarkets(): Promise<OpenMarketUniverse> {
+  const all: Market[] = [];
+  let complete = false;
+
+  for await (const page of marketsApi.iterateMarketPages(
+    { status: "open" },
+    { maxPages: universeMaxPages }
+  )) {
+    all.push(...page.markets);
+    complete = !page.cursor;
+  }
+
+  // No activity filter here: each ranker decides which markets it considers
+  return { markets: all.map(normalizeMarket), complete };
+}
+
+/**
+ * Get every open market, normalized, with whether the walk reached the
+ * last page
  */
-function isValidActiveMarket(market: Market): boolean {
-  // Must be active/open status
-  if (market.status !== "active" && market.status !== "open") return false;
-  // Must have some activity
-  if ((market.volume_24h ?? 0) === 0 && (market.liquidity ?? 0) === 0) return false;
-  return true;
+function getOpenMarketUniverse(): Promise<OpenMarketUniverse> {
+  if (openUniverse && Date.now() - openUniverse.fetchedAt < UNIVERSE_TTL_MS) {
+    return openUniverse.universe;
+  }
+
+  const universe = walkOpenMarkets();
+  const entry = { fetchedAt: Date.now(), universe };
+  openUniverse = entry;
+
+  // Don't cache failures
+  universe.catch(() => {
+    if (openUniverse === entry) openUniverse = null;
+  });
+
+  return universe;
+}
+
+// Settled instances only change when one settles, so model runs on a
+// series' markets share one fetch
+const SERIES_CONTEXT_TTL_MS = 10 * 60 * 1000;
+// Base rates need recent instances, not a daily series' full archive
+const SERIES_CONTEXT_MAX_ITEMS = MAX_PAGE_SIZE;
+
+const settledSeriesHistory = new Map<
+  string,
+  { fetchedAt: number; history: Promise<SeriesInstance[]> }
+>();
+
+/**
+ * Get a series' settled instances for model context, one page of each.
+ * Shared between callers, so it takes no abort signal.
+ */
+function getSettledSeriesHistory(seriesTicker: string): Promise<SeriesInstance[]> {
+  const cached = settledSeriesHistory.get(seriesTicker);
+  if (cached && Date.now() - cached.fetchedAt < SERIES_CONTEXT_TTL_MS) {
+    return cached.history;
+  }
+
+  const caps = { maxPages: 1, maxItems: SERIES_CONTEXT_MAX_ITEMS };
+  const history = Promise.all([
+    eventsApi.getAllEvents({ series_ticker: seriesTicker, status: "settled" }, caps),
+    marketsApi.getAllMarkets({ series_ticker: seriesTicker, status: "settled" }, caps),
+  ]).then(([events, markets]) => buildSeriesInstances(events, markets.map(normalizeMarket)));
+
+  const entry = { fetchedAt: Date.now(), history };
+  settledSeriesHistory.set(seriesTicker, entry);
+
+  // Don't cache failures
+  history.catch(() => {
+    if (settledSeriesHistory.get(seriesTicker) === entry) settledSeriesHistory.delete(seriesTicker);
+  });
+
+  return history;
 }
 
 /**
@@ -234,39 +1387,60 @@ function isValidActiveMarket(market: Market): boolean {
 export const kalshi = {
   markets: marketsApi,
   events: eventsApi,
+  series: seriesApi,
+  portfolio: portfolioApi,
+  orders: ordersApi,
 
   /**
    * Get market with enriched price data
    */
-  async getEnrichedMarket(ticker: string): Promise<Market> {
-    const market = await marketsApi.getMarket(ticker);
+  async getEnrichedMarket(ticker: string, options?: CallOptions): Promise<Market> {
+    const market = await marketsApi.getMarket(ticker, options);
     return normalizeMarket(market);
   },
 
+  /**
+   * Get every open market, shared with the ranking helpers
+   */
+  async getOpenMarkets(): Promise<Market[]> {
+    return (await getOpenMarketUniverse()).markets;
+  },
+
+  /**
+   * Get every open market along with whether the page cap cut the walk
+   * short
+   */
+  getOpenMarketUniverse,
+
   /**
    * Get trending markets (highest 24h volume)
    */
   async getTrendingMarkets(limit: number = 10): Promise<Market[]> {
-    const markets = await marketsApi.getMarkets({ status: "open", limit: 200 });
+    const { markets } = await getOpenMarketUniverse();
 
-    return markets
-      .map(normalizeMarket)
-      .filter(isValidActiveMarket)
+    return [...markets]
       .sort((a, b) => (b.volume_24h ?? 0) - (a.volume_24h ?? 0))
       .slice(0, limit);
   },
 
   /**
-   * Get markets ending soon
+   * Get markets ending soon, filtered to the close-time window by the API
    */
-  async getEndingSoonMarkets(limit: number = 10): Promise<Market[]> {
-    const markets = await marketsApi.getMarkets({ status: "open", limit: 200 });
-    const now = new Date();
+  async getEndingSoonMarkets(
+    limit: number = 10,
+    horizonHours: number = 7 * 24,
+    eligibility: RankingEligibility = DEFAULT_RANKING_ELIGIBILITY
+  ): Promise<Market[]> {
+    const nowTs = Math.floor(Date.now() / 1000);
+    const markets = await marketsApi.getAllMarkets({
+      status: "open",
+      min_close_ts: nowTs,
+      max_close_ts: nowTs + horizonHours * 60 * 60,
+    });
 
     return markets
       .map(normalizeMarket)
-      .filter(isValidActiveMarket)
-      .filter((m) => m.close_time && new Date(m.close_time) > now)
+      .filter((market) => meetsEligibility(market, eligibility))
       .sort(
         (a, b) =>
           new Date(a.close_time).getTime() - new Date(b.close_time).getTime()
@@ -274,30 +1448,53 @@ export const kalshi = {
       .slice(0, limit);
   },
 
+  /**
+   * Rank open markets with a strategy, best first, with score breakdowns
+   */
+  async getRankedMarkets(ranker: MarketRanker, limit: number = 10): Promise<RankedMarket[]> {
+    const { markets } = await getOpenMarketUniverse();
+    return rankMarkets(markets, ranker, limit);
+  },
+
   /**
    * Get hot markets (high volume + liquidity)
    */
   async getHotMarkets(limit: number = 10): Promise<Market[]> {
-    const markets = await marketsApi.getMarkets({ status: "open", limit: 200 });
+    const ranked = await kalshi.getRankedMarkets(getRanker("custom", DEFAULT_RANKING_WEIGHTS), limit);
+    return ranked.map((r) => r.market);
+  },
 
-    // Score based on volume, liquidity, and open interest
-    const scored = markets
-      .map(normalizeMarket)
-      .filter(isValidActiveMarket)
-      .map((market) => {
-        const volumeScore = Math.log10((market.volume_24h ?? 0) + 1);
-        const liquidityScore = Math.log10((market.liquidity ?? 0) + 1);
-        const openInterestScore = Math.log10((market.open_interest ?? 0) + 1);
-        const score =
-          volumeScore * 0.5 + liquidityScore * 0.3 + openInterestScore * 0.2;
-
-        return { market, score };
-      });
+  /**
+   * Gather the trades and settled series history probability models draw
+   * on. Either may be missing if its request fails.
+   */
+  async getModelContext(market: Market, options?: CallOptions): Promise<ModelContext> {
+    const [trades, seriesHistory] = await Promise.allSettled([
+      marketsApi.getTradesPage({ ticker: market.ticker, limit: 200 }, options),
+      getSettledSeriesHistory(seriesTickerFromTicker(market.event_ticker)),
+    ]);
+
+    return {
+      trades: trades.status === "fulfilled" ? trades.value.trades : undefined,
+      seriesHistory: seriesHistory.status === "fulfilled" ? seriesHistory.value : undefined,
+      nowMs: Date.now(),
+    };
+  },
+
+  /**
+   * Get every instance of a recurring series with its settlement outcome,
+   * newest first
+   */
+  async getSeriesHistory(
+    seriesTicker: string,
+    options?: CallOptions
+  ): Promise<SeriesInstance[]> {
+    const [events, markets] = await Promise.all([
+      eventsApi.getAllEvents({ series_ticker: seriesTicker }, options),
+      marketsApi.getAllMarkets({ series_ticker: seriesTicker }, options),
+    ]);
 
-    return scored
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((s) => s.market);
+    return buildSeriesInstances(events, markets.map(normalizeMarket));
   },
 };
 
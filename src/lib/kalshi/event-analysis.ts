@@ -0,0 +1,92 @@
+/**
+ * Event outcome analysis
+ * Implied probabilities across an event's markets, and for mutually
+ * exclusive events the overround (vig) in the book and any arbitrage it
+ * leaves open. Prices are in cents, probabilities 0-1.
+ */
+
+import type { Event, Market } from "./types";
+
+export interface EventOutcome {
+  market: Market;
+  impliedProbability: number; // Mid when two-sided, else last trade
+  fairProbability: number | null; // Implied probability with the vig removed
+}
+
+export type EventArbitrage =
+  | { kind: "buy-all-yes"; cost: number; edge: number } // Yes on every outcome for under $1
+  | { kind: "buy-all-no"; cost: number; edge: number }; // No on every outcome for under $(n-1)
+
+export interface EventAnalysis {
+  outcomes: EventOutcome[];
+  mutuallyExclusive: boolean;
+  askSum: number | null; // Cost of one yes on every outcome, null if any outcome has no ask
+  bidSum: number;
+  overround: number | null; // askSum - 100
+  impliedSum: number;
+  arbitrage: EventArbitrage | null;
+}
+
+function isTradeable(market: Market): boolean {
+  return market.status === "active" || market.status === "open";
+}
+
+/**
+ * Best estimate of a market's yes probability from its quote
+ */
+export function impliedProbability(market: Market): number {
+  if (market.yes_bid > 0 && market.yes_ask > 0) return (market.yes_bid + market.yes_ask) / 200;
+  return market.last_price / 100;
+}
+
+/**
+ * Analyze an event's outcome markets. Only open markets count towards the
+ * sums; settled outcomes are listed at their last price.
+ *
+ * Buying every yes only locks in a profit if the outcomes are exhaustive as
+ * well as exclusive, which Kalshi's mutually exclusive events normally are.
+ */
+export function analyzeEvent(event: Pick<Event, "mutually_exclusive">, markets: Market[]): EventAnalysis {
+  const open = markets.filter(isTradeable);
+  const impliedSum = open.reduce((sum, m) => sum + impliedProbability(m), 0);
+
+  const outcomes = markets
+    .map((market) => {
+      const implied = impliedProbability(market);
+      return {
+        market,
+        impliedProbability: implied,
+        fairProbability:
+          event.mutually_exclusive && isTradeable(market) && impliedSum > 0
+            ? implied / impliedSum
+            : null,
+      };
+    })
+    .sort((a, b) => b.impliedProbability - a.impliedProbability);
+
+  const askSum = open.length > 0 && open.every((m) => m.yes_ask > 0)
+    ? open.reduce((sum, m) => sum + m.yes_ask, 0)
+    : null;
+  const bidSum = open.reduce((sum, m) => sum + m.yes_bid, 0);
+
+  let arbitrage: EventArbitrage | null = null;
+  if (event.mutually_exclusive && open.length > 1) {
+    if (askSum !== null && askSum < 100) {
+      arbitrage = { kind: "buy-all-yes", cost: askSum, edge: 100 - askSum };
+    } else if (bidSum > 100) {
+      // No asks are 100 - yes bid; exactly n - 1 of the no contracts pay out
+      const cost = open.length * 100 - bidSum;
+      arbitrage = { kind: "buy-all-no", cost, edge: (open.length - 1) * 100 - cost };
+    }
+  }
+
+  return {
+    outcomes,
+    mutuallyExclusive: event.mutually_exclusive,
+    askSum,
+    bidSum,
+    overround: askSum === null ? null : askSum - 100,
+    impliedSum,
+    arbitrage,
+  };
+}
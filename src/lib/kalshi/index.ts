@@ -1,3 +1,21 @@
 export * from "./types";
 export * from "./client";
-export { kalshi as default, kalshi, marketsApi, eventsApi } from "./client";
+export * from "./schemas";
+export * from "./candles";
+export * from "./price-history";
+export * from "./series";
+export * from "./order-preview";
+export * from "./stream";
+export * from "./orderbook";
+export * from "./market-query";
+export * from "./screener";
+export * from "./ranking";
+export * from "./event-analysis";
+export * from "./truth-engine";
+export * from "./llm-model";
+export * from "./resolution-risk";
+export * from "./insights";
+export * from "./smart-money";
+export * from "./news";
+export * from "./news-correlation";
+export { kalshi as default, kalshi, marketsApi, eventsApi, seriesApi, portfolioApi, ordersApi } from "./client";
@@ -0,0 +1,218 @@
+/**
+ * Insight feed
+ * Turns computed signals into feed items: mispricing from Truth Engine
+ * analyses, resolution risk from a market's settlement terms and unusual
+ * flow from 24h turnover. Each confidence is derived from the strength of
+ * its signal; the formulas are documented on the generators.
+ */
+
+import { analyzeResolutionRisk, RISK_FACTORS, type ResolutionRisk } from "./resolution-risk";
+import type { AIAnalysis, Market } from "./types";
+
+export type InsightKind = "mispricing" | "resolution-risk" | "unusual-flow";
+
+export const INSIGHT_KINDS: Record<InsightKind, string> = {
+  mispricing: "Mispricing",
+  "resolution-risk": "Resolution risk",
+  "unusual-flow": "Unusual flow",
+};
+
+export interface Insight {
+  id: string; // kind:ticker, stable across refreshes
+  kind: InsightKind;
+  ticker: string;
+  marketTitle: string;
+  title: string;
+  description: string;
+  direction: "bullish" | "bearish" | "neutral";
+  confidence: number; // 0-100
+  createdAt: string;
+}
+
+// Edges smaller than this are inside typical fees and slippage
+const MIN_MISPRICING_EDGE = 0.03;
+// Edge at which the size term of mispricing confidence maxes out
+const FULL_MISPRICING_EDGE = 0.1;
+// How far each model confidence level can carry an insight
+const MODEL_CONFIDENCE_CEILING: Record<AIAnalysis["confidence"], number> = {
+  low: 0.5,
+  medium: 0.75,
+  high: 0.95,
+};
+// Analyses older than this describe a different book
+const MAX_ANALYSIS_AGE_MS = 60 * 60 * 1000;
+
+function insight(market: Market, kind: InsightKind, fields: Omit<Insight, "id" | "kind" | "ticker" | "marketTitle">): Insight {
+  return {
+    id: `${kind}:${market.ticker}`,
+    kind,
+    ticker: market.ticker,
+    marketTitle: market.yes_sub_title ? `${market.title}: ${market.yes_sub_title}` : market.title,
+    ...fields,
+  };
+}
+
+function cents(probability: number): string {
+  return `${(probability * 100).toFixed(1)}¢`;
+}
+
+/**
+ * A model estimate outside the spread by a tradeable margin.
+ * Confidence = model ceiling × (0.5 + 0.5 × edge / 10¢, capped at 1).
+ */
+export function mispricingInsight(market: Market, analysis: AIAnalysis, nowMs: number): Insight | null {
+  if (Math.abs(analysis.edge) < MIN_MISPRICING_EDGE) return null;
+  if (nowMs - new Date(analysis.updatedAt).getTime() > MAX_ANALYSIS_AGE_MS) return null;
+
+  const size = Math.min(1, Math.abs(analysis.edge) / FULL_MISPRICING_EDGE);
+  const confidence = Math.round(100 * MODEL_CONFIDENCE_CEILING[analysis.confidence] * (0.5 + 0.5 * size));
+  const side = analysis.edge > 0 ? "yes" : "no";
+
+  return insight(market, "mispricing", {
+    title: `${side === "yes" ? "Underpriced" : "Overpriced"} by ${cents(Math.abs(analysis.edge))}`,
+    description: `Model estimate ${cents(analysis.aiProbability)} vs market ${cents(analysis.marketProbability)}. ${analysis.reasoning}`,
+    direction: side === "yes" ? "bullish" : "bearish",
+    confidence,
+    createdAt: analysis.updatedAt,
+  });
+}
+
+// Below this many contracts turnover ratios are dominated by noise
+const MIN_FLOW_VOLUME = 500;
+// Robust z-score that counts as unusual
+const FLOW_Z_THRESHOLD = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Markets trading far more than usual for their open interest. Turnover is
+ * compared on a log scale against the median of the set using the median
+ * absolute deviation. Confidence = 1 - 1/z, so z 3 → 67, z 10 → 90.
+ */
+export function unusualFlowInsights(markets: Market[], nowMs: number): Insight[] {
+  const candidates = markets
+    .filter((m) => (m.volume_24h ?? 0) >= MIN_FLOW_VOLUME)
+    .map((m) => ({ market: m, turnover: (m.volume_24h ?? 0) / Math.max(m.open_interest, 1) }));
+  if (candidates.length < 10) return [];
+
+  const logs = candidates.map((c) => Math.log(c.turnover));
+  const center = median(logs);
+  // 1.4826 scales MAD to a standard deviation for normal data
+  const spread = 1.4826 * median(logs.map((l) => Math.abs(l - center)));
+  if (spread === 0) return [];
+
+  const typical = Math.exp(center);
+
+  return candidates.flatMap(({ market, turnover }) => {
+    const z = (Math.log(turnover) - center) / spread;
+    if (z < FLOW_Z_THRESHOLD) return [];
+
+    const move = (market.change24h ?? 0) * 100;
+    return [
+      insight(market, "unusual-flow", {
+        title: `Turnover ${(turnover / typical).toFixed(1)}× normal`,
+        description: `${Math.round(market.volume_24h ?? 0).toLocaleString()} contracts traded in 24h against ${market.open_interest.toLocaleString()} open interest${
+          move ? `, price ${move > 0 ? "up" : "down"} ${Math.abs(move).toFixed(1)}%` : ""
+        }.`,
+        direction: move > 0 ? "bullish" : move < 0 ? "bearish" : "neutral",
+        confidence: Math.round(100 * (1 - 1 / z)),
+        createdAt: new Date(nowMs).toISOString(),
+      }),
+    ];
+  });
+}
+
+// Scores at or above this are surfaced
+const MIN_RESOLUTION_RISK = 50;
+const MAX_QUOTED_PHRASE = 60;
+
+// Scoring runs a few dozen patterns over the rules, so each market's score
+// is kept until its settlement terms change or it leaves the universe
+const riskByTicker = new Map<string, { terms: string; risk: ResolutionRisk }>();
+
+function cachedResolutionRisk(market: Market): ResolutionRisk {
+  const terms = JSON.stringify([
+    market.rules_primary,
+    market.rules_secondary,
+    market.early_close_condition,
+    market.can_close_early,
+    market.settlement_timer_seconds,
+  ]);
+  const cached = riskByTicker.get(market.ticker);
+  if (cached?.terms === terms) return cached.risk;
+
+  const risk = analyzeResolutionRisk(market);
+  riskByTicker.set(market.ticker, { terms, risk });
+  return risk;
+}
+
+// Drop scores for markets that have closed or settled since the last poll
+function pruneResolutionRisk(markets: Map<string, Market>): void {
+  for (const ticker of riskByTicker.keys()) {
+    if (!markets.has(ticker)) riskByTicker.delete(ticker);
+  }
+}
+
+/**
+ * Markets the Oracle Risk Radar scores as high risk. A single pattern can
+ * misfire on boilerplate, so confidence measures corroboration rather than
+ * severity: each independent factor flagged halves the chance the flag is
+ * noise, giving 50% for one factor, 75% for two, capped at 95.
+ */
+export function resolutionRiskInsight(market: Market, nowMs: number): Insight | null {
+  const risk = cachedResolutionRisk(market);
+  if (risk.score < MIN_RESOLUTION_RISK) return null;
+
+  // Long phrases like a whole early-close condition are left to the market page
+  const flagged = risk.findings.map((f) => {
+    const label = RISK_FACTORS[f.factor].toLowerCase();
+    const quoted = f.phrases.filter((p) => p.length <= MAX_QUOTED_PHRASE).map((p) => `"${p}"`);
+    return quoted.length > 0 ? `${label} (${quoted.join(", ")})` : label;
+  });
+
+  return insight(market, "resolution-risk", {
+    title: `Resolution risk ${risk.score}/100`,
+    description: `Settlement terms flagged: ${flagged.join(", ")}.`,
+    direction: "neutral",
+    confidence: Math.min(Math.round(100 * (1 - 0.5 ** risk.findings.length)), 95),
+    createdAt: new Date(nowMs).toISOString(),
+  });
+}
+
+/**
+ * Every insight for a set of markets, most confident first
+ */
+export function generateInsights(
+  markets: Market[],
+  analyses: AIAnalysis[],
+  nowMs: number = Date.now()
+): Insight[] {
+  const byTicker = new Map(markets.map((m) => [m.ticker, m]));
+
+  const mispricings = analyses.flatMap((analysis) => {
+    const market = byTicker.get(analysis.marketId);
+    const found = market ? mispricingInsight(market, analysis, nowMs) : null;
+    return found ? [found] : [];
+  });
+
+  const risks = markets.flatMap((market) => {
+    const found = resolutionRiskInsight(market, nowMs);
+    return found ? [found] : [];
+  });
+  pruneResolutionRisk(byTicker);
+
+  // One mispricing per market, from the model most confident in it
+  const bestMispricing = new Map<string, Insight>();
+  for (const item of mispricings) {
+    const current = bestMispricing.get(item.ticker);
+    if (!current || item.confidence > current.confidence) bestMispricing.set(item.ticker, item);
+  }
+
+  return [...bestMispricing.values(), ...unusualFlowInsights(markets, nowMs), ...risks].sort(
+    (a, b) => b.confidence - a.confidence
+  );
+}
@@ -0,0 +1,146 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { LlmModelError, createLlmModel } from "./llm-model";
+import type { Market } from "./types";
+
+const market = {
+  ticker: "RAIN-26OCT19",
+  event_ticker: "RAIN-26OCT19",
+  title: "Will it rain in NYC today?",
+} as Market;
+
+const context = { nowMs: Date.now() };
+
+type Handler = (req: IncomingMessage, res: ServerResponse, body: string) => void;
+
+// Stub endpoint; each test sets how it answers
+let handler: Handler = (_req, res) => res.end();
+const server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => handler(req, res, body));
+});
+let url = "";
+
+function respondJson(status: number, payload: unknown): Handler {
+  return (_req, res) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(typeof payload === "string" ? payload : JSON.stringify(payload));
+  };
+}
+
+// Never answers, so only a timeout or abort ends the request
+const hang: Handler = () => {};
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/estimate`;
+});
+
+afterEach(() => {
+  server.closeAllConnections();
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("createLlmModel", () => {
+  it("posts the market and returns a valid estimate", async () => {
+    let request: { method?: string; body: Record<string, unknown> } | null = null;
+    const answer = respondJson(200, {
+      probability: 0.62,
+      confidence: "medium",
+      reasoning: "Forecast calls for showers",
+    });
+    handler = (req, res, body) => {
+      request = { method: req.method, body: JSON.parse(body) };
+      answer(req, res, body);
+    };
+
+    const estimate = await createLlmModel({ url }).estimate(market, context);
+
+    expect(estimate).toEqual({
+      probability: 0.62,
+      confidence: "medium",
+      reasoning: "Forecast calls for showers",
+      sources: [],
+    });
+    expect(request).toMatchObject({
+      method: "POST",
+      body: { market: { ticker: market.ticker }, recentTrades: [] },
+    });
+  });
+
+  it("returns null when the model declines to estimate", async () => {
+    handler = respondJson(200, { probability: null, reasoning: "Not enough information" });
+
+    await expect(createLlmModel({ url }).estimate(market, context)).resolves.toBeNull();
+  });
+
+  it("rejects a non-2xx response with its status", async () => {
+    handler = respondJson(503, { error: "overloaded" });
+
+    const error = await createLlmModel({ url }).estimate(market, context).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LlmModelError);
+    expect(error.message).toBe("LLM endpoint returned 503");
+    expect(error.status).toBe(503);
+  });
+
+  it("rejects malformed JSON", async () => {
+    handler = respondJson(200, "{ probability: 0.5");
+
+    await expect(createLlmModel({ url }).estimate(market, context)).rejects.toThrow(
+      "Invalid JSON from LLM endpoint"
+    );
+  });
+
+  it("rejects a response that fails the schema, naming the field", async () => {
+    handler = respondJson(200, { probability: 1.4, reasoning: "Certain" });
+
+    await expect(createLlmModel({ url }).estimate(market, context)).rejects.toThrow(
+      /^Invalid LLM response at probability:/
+    );
+  });
+
+  it("times out a request the endpoint never answers", async () => {
+    handler = hang;
+
+    await expect(createLlmModel({ url, timeoutMs: 50 }).estimate(market, context)).rejects.toThrow(
+      "LLM request aborted or timed out after 50ms"
+    );
+  });
+
+  it("stops when the caller aborts", async () => {
+    handler = hang;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const error = await createLlmModel({ url })
+      .estimate(market, context, { signal: controller.signal })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LlmModelError);
+    expect(error.message).toMatch(/aborted or timed out/);
+  });
+
+  it("fails fast when the caller already aborted", async () => {
+    let requested = false;
+    handler = (_req, res) => {
+      requested = true;
+      res.end();
+    };
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await createLlmModel({ url })
+      .estimate(market, context, { signal: controller.signal })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LlmModelError);
+    expect(error.message).toBe("LLM request aborted");
+    expect(requested).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * LLM probability model
+ * Adapts any HTTP endpoint that speaks a small JSON contract into a
+ * ProbabilityModel, so a hosted LLM, a local model server or a test stub
+ * can be swapped by URL.
+ *
+ * Request:  POST { market, recentTrades, question }
+ * Response: { probability: 0-1 | null, confidence?, reasoning, sources? }
+ *
+ * A null probability means the model declined to estimate.
+ */
+
+import { z } from "zod";
+import type { ProbabilityModel } from "./truth-engine";
+import type { Market } from "./types";
+
+export interface LlmModelOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export class LlmModelError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "LlmModelError";
+  }
+}
+
+const llmEstimateSchema = z.object({
+  probability: z.number().min(0).max(1).nullable(),
+  confidence: z.enum(["low", "medium", "high"]).default("low"),
+  reasoning: z.string(),
+  sources: z.array(z.string()).default([]),
+});
+
+// Trades sent as context; enough to show flow without bloating the prompt
+const MAX_CONTEXT_TRADES = 50;
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+function marketSummary(market: Market) {
+  return {
+    ticker: market.ticker,
+    event_ticker: market.event_ticker,
+    title: market.title,
+    subtitle: market.subtitle,
+    yes_sub_title: market.yes_sub_title,
+    rules_primary: market.rules_primary,
+    rules_secondary: market.rules_secondary,
+    close_time: market.close_time,
+    yes_bid: market.yes_bid,
+    yes_ask: market.yes_ask,
+    last_price: market.last_price,
+    volume_24h: market.volume_24h,
+    open_interest: market.open_interest,
+  };
+}
+
+/**
+ * Build a ProbabilityModel backed by an LLM endpoint
+ */
+export function createLlmModel(options: LlmModelOptions): ProbabilityModel {
+  const { url, headers = {}, timeoutMs = DEFAULT_TIMEOUT_MS, fetchImpl = fetch } = options;
+
+  return {
+    id: "llm",
+    name: "LLM",
+    description: `Language model estimate from ${url}`,
+    estimate: async (market, context, callOptions) => {
+      // An already-aborted signal never fires its listener, so check up front
+      if (callOptions?.signal?.aborted) throw new LlmModelError("LLM request aborted");
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const onAbort = () => controller.abort();
+      callOptions?.signal?.addEventListener("abort", onAbort, { once: true });
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify({
+            market: marketSummary(market),
+            recentTrades: (context.trades ?? []).slice(0, MAX_CONTEXT_TRADES),
+            question: `What is the probability that "${market.title}" resolves yes?`,
+          }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw new LlmModelError(
+          controller.signal.aborted
+            ? `LLM request aborted or timed out after ${timeoutMs}ms`
+            : `LLM request failed: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      } finally {
+        clearTimeout(timer);
+        callOptions?.signal?.removeEventListener("abort", onAbort);
+      }
+
+      if (!response.ok) {
+        throw new LlmModelError(`LLM endpoint returned ${response.status}`, response.status);
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch {
+        throw new LlmModelError("Invalid JSON from LLM endpoint", response.status);
+      }
+
+      const result = llmEstimateSchema.safeParse(data);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new LlmModelError(
+          `Invalid LLM response at ${issue.path.join(".") || "<root>"}: ${issue.message}`,
+          response.status
+        );
+      }
+
+      const { probability, ...rest } = result.data;
+      if (probability === null) return null;
+
+      return { probability, ...rest };
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Market browser queries
+ * Round-trips explorer filters through URL params, maps them onto API
+ * filters, and applies the parts the API can't filter or sort on
+ */
+
+import type { Market, MarketFilters } from "./types";
+import { seriesTickerFromTicker } from "./candles";
+
+export const MARKET_CATEGORIES = [
+  "Economics",
+  "Financials",
+  "Politics",
+  "Climate and Weather",
+  "Crypto",
+  "Companies",
+  "Science and Technology",
+  "World",
+];
+
+export const MARKET_SORTS = {
+  listed: "Kalshi order",
+  volume_24h: "24h volume",
+  open_interest: "Open interest",
+  change24h: "24h change",
+  spread: "Tightest spread",
+  close_time: "Closing soonest",
+} as const;
+
+export const CLOSE_WINDOWS = {
+  "24h": 24,
+  "7d": 7 * 24,
+  "30d": 30 * 24,
+} as const;
+
+export type MarketSort = keyof typeof MARKET_SORTS;
+export type CloseWindow = keyof typeof CLOSE_WINDOWS;
+export type MarketQueryStatus = NonNullable<MarketFilters["status"]> | "all";
+
+export interface MarketQuery {
+  status: MarketQueryStatus;
+  category?: string;
+  series?: string;
+  event?: string;
+  closesWithin?: CloseWindow;
+  minVolume?: number; // 24h contracts
+  maxVolume?: number;
+  minLiquidity?: number; // Dollars
+  maxLiquidity?: number;
+  sort: MarketSort;
+}
+
+export const DEFAULT_MARKET_QUERY: MarketQuery = {
+  status: "open",
+  sort: "listed",
+};
+
+const STATUSES: MarketQueryStatus[] = ["open", "unopened", "closed", "settled", "all"];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function isKeyOf<T extends object>(record: T, key: string | null): key is Extract<keyof T, string> {
+  return key !== null && Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/**
+ * Read a query from URL params, ignoring anything malformed
+ */
+export function parseMarketQuery(params: URLSearchParams): MarketQuery {
+  const status = params.get("status") as MarketQueryStatus | null;
+  const sort = params.get("sort");
+  const closes = params.get("closes");
+
+  return {
+    status: status && STATUSES.includes(status) ? status : DEFAULT_MARKET_QUERY.status,
+    category: params.get("category") || undefined,
+    series: params.get("series")?.toUpperCase() || undefined,
+    event: params.get("event")?.toUpperCase() || undefined,
+    closesWithin: isKeyOf(CLOSE_WINDOWS, closes) ? closes : undefined,
+    minVolume: parseNumber(params.get("minVolume")),
+    maxVolume: parseNumber(params.get("maxVolume")),
+    minLiquidity: parseNumber(params.get("minLiquidity")),
+    maxLiquidity: parseNumber(params.get("maxLiquidity")),
+    sort: isKeyOf(MARKET_SORTS, sort) ? sort : DEFAULT_MARKET_QUERY.sort,
+  };
+}
+
+/**
+ * Write a query to URL params, leaving defaults out so links stay short
+ */
+export function serializeMarketQuery(query: MarketQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  };
+
+  if (query.status !== DEFAULT_MARKET_QUERY.status) set("status", query.status);
+  set("category", query.category);
+  set("series", query.series);
+  set("event", query.event);
+  set("closes", query.closesWithin);
+  set("minVolume", query.minVolume);
+  set("maxVolume", query.maxVolume);
+  set("minLiquidity", query.minLiquidity);
+  set("maxLiquidity", query.maxLiquidity);
+  if (query.sort !== DEFAULT_MARKET_QUERY.sort) set("sort", query.sort);
+
+  return params;
+}
+
+/**
+ * The parts of a query the markets endpoint can filter on
+ */
+export function toMarketFilters(query: MarketQuery, nowTs: number): MarketFilters {
+  return {
+    status: query.status === "all" ? undefined : query.status,
+    series_ticker: query.series,
+    event_ticker: query.event,
+    ...(query.closesWithin && {
+      min_close_ts: nowTs,
+      max_close_ts: nowTs + CLOSE_WINDOWS[query.closesWithin] * 60 * 60,
+    }),
+  };
+}
+
+/**
+ * Kalshi has no sort parameter, so a sort is only stable once every
+ * matching market is loaded. That walk is bounded for open markets or a
+ * single series or event; other listings stay in Kalshi's order.
+ */
+export function canSortMarkets(query: MarketQuery): boolean {
+  return query.status === "open" || !!query.series || !!query.event;
+}
+
+/**
+ * Whether a query needs every matching market loaded before it's shown,
+ * rather than paging through in Kalshi's order
+ */
+export function sortsClientSide(query: MarketQuery): boolean {
+  return query.sort !== "listed" && canSortMarkets(query);
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function sortValue(market: Market, sort: MarketSort): number {
+  switch (sort) {
+    case "listed":
+      return 0;
+    case "volume_24h":
+      return -(market.volume_24h ?? 0);
+    case "open_interest":
+      return -market.open_interest;
+    case "change24h":
+      return -(market.change24h ?? 0);
+    case "spread":
+      // One-sided markets have no spread and sink to the bottom
+      return market.yes_bid > 0 && market.yes_ask > 0
+        ? market.yes_ask - market.yes_bid
+        : Number.MAX_SAFE_INTEGER;
+    case "close_time":
+      return new Date(market.close_time).getTime();
+  }
+}
+
+/**
+ * Apply the range filters and category the API doesn't support.
+ * `categorySeries` holds the series tickers in the selected category.
+ */
+export function filterMarkets(
+  markets: Market[],
+  query: MarketQuery,
+  categorySeries?: Set<string>
+): Market[] {
+  return markets.filter(
+    (m) =>
+      inRange(m.volume_24h ?? 0, query.minVolume, query.maxVolume) &&
+      inRange((m.liquidity ?? 0) / 100, query.minLiquidity, query.maxLiquidity) &&
+      (!query.category ||
+        !categorySeries ||
+        categorySeries.has(seriesTickerFromTicker(m.event_ticker)))
+  );
+}
+
+/**
+ * Filter and sort a complete set of markets. Sorting partial pages would
+ * reshuffle the rows as more load, so check `sortsClientSide` first.
+ */
+export function applyMarketQuery(
+  markets: Market[],
+  query: MarketQuery,
+  categorySeries?: Set<string>
+): Market[] {
+  return filterMarkets(markets, query, categorySeries).sort(
+    (a, b) => sortValue(a, query.sort) - sortValue(b, query.sort)
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * News correlation
+ * Matches headlines to a market by keyword and named-entity overlap with
+ * its title, yes_sub_title and event title, then reads the yes price move
+ * in the window after each headline from the market's trade history.
+ */
+
+import type { NewsItem } from "./news";
+import type { Market, NewsCorrelation, Trade } from "./types";
+
+export interface CorrelationOptions {
+  eventTitle?: string;
+  windowMs: number; // How long after a headline its price impact is measured
+  minRelevance: number;
+}
+
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  windowMs: 60 * 60 * 1000,
+  minRelevance: 0.35,
+};
+
+export interface HeadlineMatch {
+  relevance: number; // 0-1
+  matchedTerms: string[]; // Entities first, then keywords
+}
+
+export interface PriceImpact {
+  change: number | null; // Probability points, positive when yes rose; null when unmeasured
+  before: number | null; // Cents
+  after: number | null;
+  trades: number; // Trades inside the window
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been before by can do does for from has have how if in into is it its more " +
+    "most no not of on or over than that the their there this to under was what when which who will " +
+    "with would yes above below between during after least than per any each market markets price"
+  ).split(" ")
+);
+
+// Words that open questions and sentences, not names
+const NON_ENTITIES = new Set(["will", "who", "what", "which", "how", "when", "the", "yes", "no", "before", "after"]);
+
+// Keywords at which the keyword part of relevance maxes out
+const KEYWORD_SATURATION = 4;
+// Share of relevance carried by named entities vs plain keywords
+const ENTITY_WEIGHT = 0.6;
+
+const POSITIVE_WORDS = new Set(
+  (
+    "rise rises rising rose surge surges surged gain gains gained win wins won beat beats approve approves " +
+    "approved pass passes passed record jump jumps jumped soar soars rally rallies boost boosts agree agrees " +
+    "agreement deal success succeeds lead leads leading up higher strong strongest grow grows growth"
+  ).split(" ")
+);
+
+const NEGATIVE_WORDS = new Set(
+  (
+    "fall falls fell drop drops dropped plunge plunges loss lose loses lost reject rejects rejected fail " +
+    "fails failed miss misses missed down lower crash crashes slump slumps delay delays delayed ban bans " +
+    "banned crisis resign resigns resigned weak weaker weakest trail trails trailing collapse collapses"
+  ).split(" ")
+);
+
+function normalizeWord(word: string): string {
+  const lower = word.toLowerCase();
+  return lower.length > 4 && lower.endsWith("s") && !lower.endsWith("ss") ? lower.slice(0, -1) : lower;
+}
+
+function words(text: string): string[] {
+  return text.match(/[A-Za-z0-9][A-Za-z0-9'.&-]*[A-Za-z0-9]|[A-Za-z0-9]/g) ?? [];
+}
+
+/**
+ * Content words worth matching on: no stopwords, and no short words
+ * unless they're numbers such as years
+ */
+export function keywords(text: string): Set<string> {
+  return new Set(
+    words(text)
+      .map(normalizeWord)
+      .filter((w) => !STOPWORDS.has(w) && (w.length >= 3 || /^\d{2,}$/.test(w)))
+  );
+}
+
+/**
+ * Runs of capitalized words and acronyms, such as "Federal Reserve" or
+ * "GDP", read as names of people, places and organizations
+ */
+export function entities(text: string): string[] {
+  const found = new Map<string, string>();
+  for (const match of text.matchAll(/\b(?:[A-Z][A-Za-z'.&-]*)(?:\s+(?:of\s+)?[A-Z][A-Za-z'.&-]*)*/g)) {
+    const phrase = match[0]
+      .split(/\s+/)
+      .filter((w, i, all) => !(i === 0 && all.length > 1 && NON_ENTITIES.has(w.toLowerCase())))
+      .join(" ")
+      .replace(/['.]s?$/, "");
+    if (phrase.length < 2 || NON_ENTITIES.has(phrase.toLowerCase())) continue;
+    found.set(phrase.toLowerCase(), phrase);
+  }
+  return [...found.values()];
+}
+
+/**
+ * How closely a headline matches a market. Relevance blends the share of
+ * the market's named entities found in the headline with its keyword
+ * overlap; a headline with no entity needs two shared keywords to count.
+ */
+export function matchHeadline(item: NewsItem, market: Market, eventTitle?: string): HeadlineMatch {
+  const marketText = [market.title, market.yes_sub_title, eventTitle].filter(Boolean).join(" ");
+  const headline = item.title;
+  const headlineLower = ` ${headline.toLowerCase()} `;
+
+  const marketEntities = entities(marketText);
+  const matchedEntities = marketEntities.filter((e) => {
+    const pattern = new RegExp(`[^a-z0-9]${e.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}[^a-z0-9]`);
+    return pattern.test(headlineLower);
+  });
+
+  const headlineKeywords = keywords(headline);
+  const matchedKeywords = [...keywords(marketText)].filter((k) => headlineKeywords.has(k));
+
+  if (matchedEntities.length === 0 && matchedKeywords.length < 2) {
+    return { relevance: 0, matchedTerms: [] };
+  }
+
+  const entityScore = marketEntities.length
+    ? matchedEntities.length / Math.min(marketEntities.length, 2)
+    : 0;
+  const keywordScore = matchedKeywords.length / KEYWORD_SATURATION;
+  const relevance = Math.min(1, ENTITY_WEIGHT * Math.min(1, entityScore) + (1 - ENTITY_WEIGHT) * Math.min(1, keywordScore));
+
+  const entityWords = new Set(matchedEntities.flatMap((e) => [...keywords(e)]));
+  return {
+    relevance,
+    matchedTerms: [...matchedEntities, ...matchedKeywords.filter((k) => !entityWords.has(k))],
+  };
+}
+
+/**
+ * Headline tone from a small word list. Neutral on a tie.
+ */
+export function headlineSentiment(text: string): NewsCorrelation["sentiment"] {
+  let score = 0;
+  for (const word of words(text)) {
+    const lower = word.toLowerCase();
+    if (POSITIVE_WORDS.has(lower)) score += 1;
+    if (NEGATIVE_WORDS.has(lower)) score -= 1;
+  }
+  return score > 0 ? "positive" : score < 0 ? "negative" : "neutral";
+}
+
+/**
+ * Yes price move from the last trade before a headline to the last trade
+ * inside the window after it. The change is null when either side of the
+ * window has no trade to price from.
+ */
+export function measurePriceImpact(trades: Trade[], atMs: number, windowMs: number): PriceImpact {
+  let before: Trade | null = null;
+  let after: Trade | null = null;
+  let count = 0;
+
+  for (const trade of trades) {
+    const time = new Date(trade.created_time).getTime();
+    if (time <= atMs) {
+      if (!before || time > new Date(before.created_time).getTime()) before = trade;
+    } else if (time <= atMs + windowMs) {
+      count += 1;
+      if (!after || time > new Date(after.created_time).getTime()) after = trade;
+    }
+  }
+
+  return {
+    change: before && after ? (after.yes_price - before.yes_price) / 100 : null,
+    before: before?.yes_price ?? null,
+    after: after?.yes_price ?? null,
+    trades: count,
+  };
+}
+
+/**
+ * Every headline relevant to a market, with its measured price impact,
+ * newest first
+ */
+export function correlateNews(
+  items: NewsItem[],
+  market: Market,
+  trades: Trade[],
+  options: Partial<CorrelationOptions> = {}
+): NewsCorrelation[] {
+  const { eventTitle, windowMs, minRelevance } = { ...DEFAULT_CORRELATION_OPTIONS, ...options };
+
+  return items
+    .flatMap((item) => {
+      const match = matchHeadline(item, market, eventTitle);
+      if (match.relevance < minRelevance) return [];
+
+      const impact = measurePriceImpact(trades, new Date(item.timestamp).getTime(), windowMs);
+      return [
+        {
+          marketId: market.ticker,
+          newsItem: {
+            title: item.title,
+            source: item.source,
+            url: item.url,
+            timestamp: item.timestamp,
+          },
+          sentiment: headlineSentiment(item.title),
+          priceImpact: impact.change,
+          relevanceScore: match.relevance,
+          matchedTerms: match.matchedTerms,
+          tradesInWindow: impact.trades,
+        },
+      ];
+    })
+    .sort((a, b) => b.newsItem.timestamp.localeCompare(a.newsItem.timestamp));
+}
@@ -0,0 +1,222 @@
+/**
+ * News ingestion
+ * Headlines come from pluggable NewsSources. The first is RSS/Atom: any
+ * feed URL becomes a source, parsed without a DOM so it runs anywhere.
+ * Feeds must allow cross-origin requests, or be fetched through a proxy
+ * that does, such as the Pages Function's feed route.
+ */
+
+import type { CallOptions } from "./client";
+
+export interface NewsItem {
+  id: string; // guid/id from the feed, else the link
+  title: string;
+  summary?: string;
+  source: string;
+  url: string;
+  timestamp: string;
+}
+
+export interface NewsSource {
+  id: string;
+  name: string;
+  fetchItems: (options?: CallOptions) => Promise<NewsItem[]>;
+}
+
+export class NewsSourceError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "NewsSourceError";
+  }
+}
+
+export interface FeedSourceOptions {
+  url: string;
+  name?: string; // Defaults to the feed's own title, then its hostname
+  proxyUrl?: string; // Fetched as `${proxyUrl}?url=<feed url>` when set
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Plain text from a feed field: CDATA unwrapped, tags stripped, entities
+ * decoded and whitespace collapsed
+ */
+function feedText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    // Descriptions often carry entity-encoded HTML
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tagText(block: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const match = block.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, "i"));
+    if (match) {
+      const text = feedText(match[1]);
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+// RSS puts the URL in <link>; Atom puts it in href, preferring rel="alternate"
+function itemLink(block: string): string | undefined {
+  const links = [...block.matchAll(/<link\b([^>]*?)\/?>/gi)].map((m) => m[1]);
+  const atom = links
+    .filter((attrs) => /\bhref=/i.test(attrs))
+    .sort((a, b) => Number(/rel=["']alternate/i.test(b)) - Number(/rel=["']alternate/i.test(a)))
+    .find((attrs) => !/rel=["'](?!alternate)/i.test(attrs));
+  const href = atom?.match(/\bhref=["']([^"']+)["']/i)?.[1];
+  return href ? feedText(href) : tagText(block, ["link"]);
+}
+
+/**
+ * Items from an RSS 2.0 or Atom document, newest first. Items without a
+ * title, link or parseable date are dropped.
+ */
+export function parseFeed(xml: string, source: string): NewsItem[] {
+  const items: NewsItem[] = [];
+
+  for (const match of xml.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const block = match[2];
+    const title = tagText(block, ["title"]);
+    const url = itemLink(block);
+    const date = tagText(block, ["pubDate", "published", "updated", "dc:date"]);
+    const time = date ? Date.parse(date) : NaN;
+    if (!title || !url || Number.isNaN(time)) continue;
+
+    items.push({
+      id: tagText(block, ["guid", "id"]) ?? url,
+      title,
+      summary: tagText(block, ["description", "summary", "content"]),
+      source,
+      url,
+      timestamp: new Date(time).toISOString(),
+    });
+  }
+
+  return items.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * The feed's own title, read from before its first item
+ */
+export function feedTitle(xml: string): string | undefined {
+  const head = xml.split(/<(?:item|entry)\b/i)[0];
+  return tagText(head, ["title"]);
+}
+
+/**
+ * Build a NewsSource that reads an RSS or Atom feed
+ */
+export function createFeedSource(options: FeedSourceOptions): NewsSource {
+  const { url, proxyUrl, timeoutMs = DEFAULT_TIMEOUT_MS, fetchImpl = fetch } = options;
+  const fetchUrl = proxyUrl ? `${proxyUrl}?url=${encodeURIComponent(url)}` : url;
+  let hostname = url;
+  try {
+    hostname = new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    // Reported when the feed is fetched
+  }
+
+  return {
+    id: url,
+    name: options.name ?? hostname,
+    fetchItems: async (callOptions) => {
+      // An already-aborted signal never fires its listener, so check up front
+      if (callOptions?.signal?.aborted) throw new NewsSourceError("Feed request aborted", url);
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const onAbort = () => controller.abort();
+      callOptions?.signal?.addEventListener("abort", onAbort, { once: true });
+
+      let xml: string;
+      try {
+        const response = await fetchImpl(fetchUrl, { signal: controller.signal });
+        if (!response.ok) {
+          throw new NewsSourceError(`Feed returned ${response.status}`, url, response.status);
+        }
+        xml = await response.text();
+      } catch (error) {
+        if (error instanceof NewsSourceError) throw error;
+        throw new NewsSourceError(
+          controller.signal.aborted
+            ? `Feed request aborted or timed out after ${timeoutMs}ms`
+            : `Feed request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          url
+        );
+      } finally {
+        clearTimeout(timer);
+        callOptions?.signal?.removeEventListener("abort", onAbort);
+      }
+
+      if (!/<(rss|feed|rdf:RDF)\b/i.test(xml)) {
+        throw new NewsSourceError("Response is not an RSS or Atom feed", url);
+      }
+
+      return parseFeed(xml, options.name ?? feedTitle(xml) ?? hostname);
+    },
+  };
+}
+
+export interface NewsFetchResult {
+  items: NewsItem[]; // Newest first, one per URL
+  errors: NewsSourceError[];
+}
+
+/**
+ * Headlines from every source. A failing source is reported alongside the
+ * others' items rather than failing the whole fetch.
+ */
+export async function fetchNews(sources: NewsSource[], options?: CallOptions): Promise<NewsFetchResult> {
+  const results = await Promise.allSettled(sources.map((source) => source.fetchItems(options)));
+
+  const byUrl = new Map<string, NewsItem>();
+  const errors: NewsSourceError[] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      errors.push(
+        result.reason instanceof NewsSourceError
+          ? result.reason
+          : new NewsSourceError(String(result.reason), sources[i].id)
+      );
+      return;
+    }
+    for (const item of result.value) {
+      if (!byUrl.has(item.url)) byUrl.set(item.url, item);
+    }
+  });
+
+  return {
+    items: [...byUrl.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    errors,
+  };
+}
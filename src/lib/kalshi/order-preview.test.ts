@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { calculateTradingFee, previewOrder, snapToTick } from "./order-preview";
+
+describe("calculateTradingFee", () => {
+  it("rounds the fee up to the next cent", () => {
+    // 0.07 x 1 x 0.5 x 0.5 = $0.0175
+    expect(calculateTradingFee(1, 50)).toBe(2);
+    // 0.07 x 10 x 0.3 x 0.7 = $0.147
+    expect(calculateTradingFee(10, 30)).toBe(15);
+  });
+
+  it("doesn't add a cent for float noise on an exact amount", () => {
+    // 0.07 x 100 x 0.5 x 0.5 = $1.75, which floats to 175.00000000000003 cents
+    expect(0.07 * 100 * 0.5 * 0.5 * 100).not.toBe(175);
+    expect(calculateTradingFee(100, 50)).toBe(175);
+  });
+
+  it("charges nothing for empty orders or prices at the bounds", () => {
+    expect(calculateTradingFee(0, 50)).toBe(0);
+    expect(calculateTradingFee(10, 0)).toBe(0);
+    expect(calculateTradingFee(10, 100)).toBe(0);
+  });
+
+  it("scales with the fee rate", () => {
+    expect(calculateTradingFee(100, 50, 0.035)).toBe(88);
+  });
+});
+
+describe("snapToTick", () => {
+  it("rounds to the nearest tick", () => {
+    expect(snapToTick(42.4)).toBe(42);
+    expect(snapToTick(43, 5)).toBe(45);
+  });
+
+  it("keeps prices strictly inside 0-100", () => {
+    expect(snapToTick(0)).toBe(1);
+    expect(snapToTick(-20)).toBe(1);
+    expect(snapToTick(100)).toBe(99);
+    expect(snapToTick(250, 5)).toBe(95);
+    expect(snapToTick(1, 5)).toBe(5);
+  });
+
+  it("treats a missing or invalid tick as one cent", () => {
+    expect(snapToTick(37.6, 0)).toBe(38);
+    expect(snapToTick(37.6, -1)).toBe(38);
+  });
+});
+
+describe("previewOrder", () => {
+  it("prices a buy with fees, payout and breakeven", () => {
+    const preview = previewOrder({ side: "yes", count: 10, priceCents: 30, balanceCents: 1000 });
+
+    expect(preview).toEqual({
+      cost: 300,
+      fees: 15,
+      totalCost: 315,
+      maxPayout: 1000,
+      maxProfit: 685,
+      breakevenProbability: 0.315,
+      balanceAfter: 685,
+      insufficientFunds: false,
+    });
+  });
+
+  it("returns an empty preview for zero contracts", () => {
+    const preview = previewOrder({ side: "no", count: 0, priceCents: 60, balanceCents: 500 });
+
+    expect(preview.cost).toBe(0);
+    expect(preview.fees).toBe(0);
+    expect(preview.maxPayout).toBe(0);
+    expect(preview.breakevenProbability).toBe(0);
+    expect(preview.balanceAfter).toBe(500);
+    expect(preview.insufficientFunds).toBe(false);
+  });
+
+  it("drops fractional and negative contract counts", () => {
+    expect(previewOrder({ side: "yes", count: 2.9, priceCents: 50 }).cost).toBe(100);
+    expect(previewOrder({ side: "yes", count: -3, priceCents: 50 }).cost).toBe(0);
+  });
+
+  it("flags orders the balance can't cover, fees included", () => {
+    // 10 x 50 = 500 plus an 18 cent fee
+    const preview = previewOrder({ side: "yes", count: 10, priceCents: 50, balanceCents: 510 });
+
+    expect(preview.totalCost).toBe(518);
+    expect(preview.balanceAfter).toBe(-8);
+    expect(preview.insufficientFunds).toBe(true);
+  });
+
+  it("doesn't flag funds when no balance is known", () => {
+    const preview = previewOrder({ side: "yes", count: 1000, priceCents: 99 });
+
+    expect(preview.balanceAfter).toBeUndefined();
+    expect(preview.insufficientFunds).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Order preview maths
+ * Pre-trade cost, fee and payout calculations for a buy order (all amounts in cents)
+ */
+
+import type { Market, OrderSide } from "./types";
+
+// Kalshi's general trading fee: 0.07 x contracts x P x (1 - P), rounded up to the cent
+export const DEFAULT_TAKER_FEE_RATE = 0.07;
+
+// Each contract settles at $1.00
+export const CONTRACT_PAYOUT_CENTS = 100;
+
+export interface OrderPreviewInput {
+  side: OrderSide;
+  count: number;
+  priceCents: number; // Limit price for the chosen side
+  balanceCents?: number;
+  feeRate?: number;
+}
+
+export interface OrderPreview {
+  cost: number; // Contracts x price
+  fees: number;
+  totalCost: number; // Cost + fees, the most this order can spend
+  maxPayout: number; // Paid out if the chosen side wins
+  maxProfit: number; // Payout minus total cost
+  breakevenProbability: number; // 0-1, win probability needed to break even
+  balanceAfter?: number;
+  insufficientFunds: boolean;
+}
+
+/**
+ * Kalshi trading fee in cents for a fill of `count` contracts at `priceCents`
+ */
+export function calculateTradingFee(
+  count: number,
+  priceCents: number,
+  feeRate: number = DEFAULT_TAKER_FEE_RATE
+): number {
+  if (count <= 0 || priceCents <= 0 || priceCents >= CONTRACT_PAYOUT_CENTS) {
+    return 0;
+  }
+
+  const price = priceCents / CONTRACT_PAYOUT_CENTS;
+  const feeDollars = feeRate * count * price * (1 - price);
+
+  // Round to 6 places first so float noise like 0.0700000001 doesn't add a cent
+  return Math.ceil(Number((feeDollars * 100).toFixed(6)));
+}
+
+/**
+ * Snap a price to the market's tick size, keeping it strictly inside (0, 100)
+ */
+export function snapToTick(priceCents: number, tickSize: number = 1): number {
+  const tick = tickSize > 0 ? tickSize : 1;
+  const snapped = Math.round(priceCents / tick) * tick;
+  return Math.min(CONTRACT_PAYOUT_CENTS - tick, Math.max(tick, snapped));
+}
+
+/**
+ * Best price to buy the given side at right now (the side's ask, in cents)
+ */
+export function askForSide(market: Market, side: OrderSide): number {
+  return side === "yes" ? market.yes_ask : market.no_ask;
+}
+
+/**
+ * Whether a limit buy at this price would cross the spread and fill as a taker
+ */
+export function isMarketable(
+  market: Market,
+  side: OrderSide,
+  priceCents: number
+): boolean {
+  const ask = askForSide(market, side);
+  return ask > 0 && priceCents >= ask;
+}
+
+/**
+ * Preview the cost and payoff of buying `count` contracts at a limit price.
+ * Fees are estimated at the taker rate, the most the order can be charged.
+ */
+export function previewOrder(input: OrderPreviewInput): OrderPreview {
+  const { count, priceCents, balanceCents, feeRate } = input;
+  const contracts = Math.max(0, Math.floor(count));
+
+  const cost = contracts * priceCents;
+  const fees = calculateTradingFee(contracts, priceCents, feeRate);
+  const totalCost = cost + fees;
+  const maxPayout = contracts * CONTRACT_PAYOUT_CENTS;
+  const maxProfit = maxPayout - totalCost;
+  const breakevenProbability = maxPayout > 0 ? totalCost / maxPayout : 0;
+  const balanceAfter =
+    balanceCents !== undefined ? balanceCents - totalCost : undefined;
+
+  return {
+    cost,
+    fees,
+    totalCost,
+    maxPayout,
+    maxProfit,
+    breakevenProbability,
+    balanceAfter,
+    insufficientFunds: balanceAfter !== undefined && balanceAfter < 0,
+  };
+}
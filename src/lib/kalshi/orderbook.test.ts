@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  OrderBookSequenceError,
+  applyOrderBookDelta,
+  createOrderBookState,
+  impliedAsks,
+  summarizeOrderBook,
+} from "./orderbook";
+
+const book = (yes: [number, number][], no: [number, number][], seq?: number) => ({
+  ...createOrderBookState({
+    ticker: "TEST",
+    yes: yes.map(([price, quantity]) => ({ price, quantity })),
+    no: no.map(([price, quantity]) => ({ price, quantity })),
+  }),
+  seq,
+});
+
+describe("summarizeOrderBook", () => {
+  it("reports nothing for an empty book", () => {
+    expect(summarizeOrderBook(book([], []))).toEqual({
+      bestYesBid: null,
+      bestYesAsk: null,
+      bestNoBid: null,
+      bestNoAsk: null,
+      spread: null,
+      mid: null,
+      yesDepth: 0,
+      noDepth: 0,
+      crossed: false,
+    });
+  });
+
+  it("has no spread or mid for a one-sided book", () => {
+    const summary = summarizeOrderBook(book([[40, 10], [38, 5]], []));
+
+    expect(summary.bestYesBid).toBe(40);
+    expect(summary.bestNoAsk).toBe(60);
+    expect(summary.bestYesAsk).toBeNull();
+    expect(summary.spread).toBeNull();
+    expect(summary.mid).toBeNull();
+    expect(summary.yesDepth).toBe(15);
+    expect(summary.crossed).toBe(false);
+  });
+
+  it("prices the spread and mid from the implied yes ask", () => {
+    // A 55 no bid implies a 45 yes ask
+    const summary = summarizeOrderBook(book([[40, 10]], [[55, 20]]));
+
+    expect(summary.bestYesAsk).toBe(45);
+    expect(summary.spread).toBe(5);
+    expect(summary.mid).toBe(42.5);
+    expect(summary.crossed).toBe(false);
+  });
+
+  it("flags a locked book, where the bids add up to a dollar", () => {
+    const summary = summarizeOrderBook(book([[45, 10]], [[55, 10]]));
+
+    expect(summary.spread).toBe(0);
+    expect(summary.crossed).toBe(true);
+  });
+
+  it("flags a crossed book, where the bids add up to more than a dollar", () => {
+    const summary = summarizeOrderBook(book([[48, 10]], [[55, 10]]));
+
+    expect(summary.spread).toBe(-3);
+    expect(summary.crossed).toBe(true);
+  });
+});
+
+describe("applyOrderBookDelta", () => {
+  it("adds to a level and advances the sequence", () => {
+    const next = applyOrderBookDelta(
+      book([[40, 10]], [], 4),
+      { market_ticker: "TEST", side: "yes", price: 40, delta: 5 },
+      5
+    );
+
+    expect(next.yes).toEqual([{ price: 40, quantity: 15 }]);
+    expect(next.seq).toBe(5);
+  });
+
+  it("ignores a delta it has already applied", () => {
+    const state = book([[40, 10]], [], 4);
+    const next = applyOrderBookDelta(state, { market_ticker: "TEST", side: "yes", price: 40, delta: 5 }, 4);
+
+    expect(next).toBe(state);
+  });
+
+  it("throws on a sequence gap", () => {
+    const state = book([[40, 10]], [], 4);
+
+    const apply = () =>
+      applyOrderBookDelta(state, { market_ticker: "TEST", side: "yes", price: 40, delta: 5 }, 6);
+
+    expect(apply).toThrow(OrderBookSequenceError);
+    expect(apply).toThrow("expected 5, received 6");
+  });
+
+  it("removes a level whose quantity drops to zero", () => {
+    const next = applyOrderBookDelta(
+      book([[40, 10], [38, 5]], [], 1),
+      { market_ticker: "TEST", side: "yes", price: 40, delta: -10 },
+      2
+    );
+
+    expect(next.yes).toEqual([{ price: 38, quantity: 5 }]);
+    expect(summarizeOrderBook(next).bestYesBid).toBe(38);
+  });
+
+  it("inserts a new level in price order", () => {
+    const next = applyOrderBookDelta(
+      book([], [[50, 10], [30, 5]]),
+      { market_ticker: "TEST", side: "no", price: 40, delta: 7 }
+    );
+
+    expect(next.no.map((l) => l.price)).toEqual([50, 40, 30]);
+  });
+});
+
+describe("impliedAsks", () => {
+  it("mirrors the opposite bids, lowest ask first", () => {
+    const state = book([[40, 10], [35, 3]], [[58, 20], [55, 8], [50, 1]]);
+
+    expect(impliedAsks(state, "yes")).toEqual([
+      { price: 42, quantity: 20 },
+      { price: 45, quantity: 8 },
+      { price: 50, quantity: 1 },
+    ]);
+    expect(impliedAsks(state, "no")).toEqual([
+      { price: 60, quantity: 10 },
+      { price: 65, quantity: 3 },
+    ]);
+  });
+
+  it("is empty when the opposite side has no bids", () => {
+    expect(impliedAsks(book([[40, 10]], []), "yes")).toEqual([]);
+  });
+});
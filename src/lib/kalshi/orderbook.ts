@@ -0,0 +1,194 @@
+/**
+ * Order book state
+ * Keeps a market's yes and no bid ladders in sync from a snapshot plus
+ * streamed deltas, and derives the implied asks and top-of-book figures.
+ *
+ * Kalshi only rests bids: a yes ask at P is a no bid at 100 - P, and the
+ * other way round. All prices are in cents.
+ */
+
+import type {
+  OrderBook,
+  OrderBookEntry,
+  OrderBookDeltaUpdate,
+  OrderBookSnapshotUpdate,
+  OrderSide,
+} from "./types";
+import { CONTRACT_PAYOUT_CENTS } from "./order-preview";
+
+export interface OrderBookState {
+  ticker: string;
+  yes: OrderBookEntry[]; // Yes bids, best (highest) first
+  no: OrderBookEntry[]; // No bids, best (highest) first
+  seq?: number; // Last applied stream sequence number
+}
+
+export interface DepthLevel extends OrderBookEntry {
+  cumulative: number; // Size at this level and every better one
+}
+
+export interface OrderBookSummary {
+  bestYesBid: number | null;
+  bestYesAsk: number | null; // Implied from the best no bid
+  bestNoBid: number | null;
+  bestNoAsk: number | null; // Implied from the best yes bid
+  spread: number | null; // Yes ask - yes bid; zero or negative when crossed
+  mid: number | null;
+  yesDepth: number; // Contracts resting on the yes side
+  noDepth: number;
+  crossed: boolean;
+}
+
+/**
+ * Thrown when a delta doesn't follow the last applied sequence number.
+ * The book is stale and needs a fresh snapshot.
+ */
+export class OrderBookSequenceError extends Error {
+  constructor(
+    public expected: number,
+    public received: number
+  ) {
+    super(`Order book sequence gap: expected ${expected}, received ${received}`);
+    this.name = "OrderBookSequenceError";
+  }
+}
+
+// Merge duplicate prices, drop empty levels and sort best first
+function normalizeLevels(levels: OrderBookEntry[]): OrderBookEntry[] {
+  const byPrice = new Map<number, number>();
+  for (const { price, quantity } of levels) {
+    byPrice.set(price, (byPrice.get(price) ?? 0) + quantity);
+  }
+
+  return [...byPrice.entries()]
+    .filter(([, quantity]) => quantity > 0)
+    .map(([price, quantity]) => ({ price, quantity }))
+    .sort((a, b) => b.price - a.price);
+}
+
+function toEntries(levels?: [number, number][]): OrderBookEntry[] {
+  return (levels ?? []).map(([price, quantity]) => ({ price, quantity }));
+}
+
+/**
+ * Build a book from a REST order book response
+ */
+export function createOrderBookState(book: Pick<OrderBook, "ticker" | "yes" | "no">): OrderBookState {
+  return {
+    ticker: book.ticker,
+    yes: normalizeLevels(book.yes),
+    no: normalizeLevels(book.no),
+  };
+}
+
+/**
+ * Build a book from a streamed snapshot, which restarts the sequence
+ */
+export function orderBookFromSnapshot(
+  snapshot: OrderBookSnapshotUpdate,
+  seq?: number
+): OrderBookState {
+  return {
+    ticker: snapshot.market_ticker,
+    yes: normalizeLevels(toEntries(snapshot.yes)),
+    no: normalizeLevels(toEntries(snapshot.no)),
+    seq,
+  };
+}
+
+/**
+ * Apply a streamed delta. Throws OrderBookSequenceError when `seq` skips
+ * ahead of the last applied one, since the book can no longer be trusted.
+ */
+export function applyOrderBookDelta(
+  state: OrderBookState,
+  delta: OrderBookDeltaUpdate,
+  seq?: number
+): OrderBookState {
+  if (seq !== undefined && state.seq !== undefined) {
+    if (seq <= state.seq) return state; // Already applied
+    if (seq !== state.seq + 1) {
+      throw new OrderBookSequenceError(state.seq + 1, seq);
+    }
+  }
+
+  const levels = state[delta.side];
+  const existing = levels.find((l) => l.price === delta.price)?.quantity ?? 0;
+  const others = levels.filter((l) => l.price !== delta.price);
+  const quantity = existing + delta.delta;
+
+  return {
+    ...state,
+    [delta.side]: normalizeLevels(
+      quantity > 0 ? [...others, { price: delta.price, quantity }] : others
+    ),
+    seq: seq ?? state.seq,
+  };
+}
+
+/**
+ * Asks for a side, implied from the opposite side's bids. Best (lowest) first.
+ */
+export function impliedAsks(state: OrderBookState, side: OrderSide): OrderBookEntry[] {
+  const opposite = side === "yes" ? state.no : state.yes;
+  return opposite.map((level) => ({
+    price: CONTRACT_PAYOUT_CENTS - level.price,
+    quantity: level.quantity,
+  }));
+}
+
+/**
+ * Attach running totals to levels that are already sorted best first
+ */
+export function withCumulativeDepth(levels: OrderBookEntry[]): DepthLevel[] {
+  let cumulative = 0;
+  return levels.map((level) => {
+    cumulative += level.quantity;
+    return { ...level, cumulative };
+  });
+}
+
+/**
+ * Contracts available to trade through `priceCents` on one side of the book:
+ * bids at or above the price, or implied asks at or below it
+ */
+export function cumulativeSize(
+  state: OrderBookState,
+  side: OrderSide,
+  kind: "bid" | "ask",
+  priceCents: number
+): number {
+  const levels =
+    kind === "bid"
+      ? state[side].filter((l) => l.price >= priceCents)
+      : impliedAsks(state, side).filter((l) => l.price <= priceCents);
+
+  return levels.reduce((sum, l) => sum + l.quantity, 0);
+}
+
+/**
+ * Top-of-book figures for the yes side, plus total depth on both sides
+ */
+export function summarizeOrderBook(state: OrderBookState): OrderBookSummary {
+  const bestYesBid = state.yes[0]?.price ?? null;
+  const bestNoBid = state.no[0]?.price ?? null;
+  const bestYesAsk = bestNoBid !== null ? CONTRACT_PAYOUT_CENTS - bestNoBid : null;
+  const bestNoAsk = bestYesBid !== null ? CONTRACT_PAYOUT_CENTS - bestYesBid : null;
+
+  const hasBothSides = bestYesBid !== null && bestYesAsk !== null;
+  const spread = hasBothSides ? bestYesAsk - bestYesBid : null;
+  const mid = hasBothSides ? (bestYesAsk + bestYesBid) / 2 : null;
+
+  return {
+    bestYesBid,
+    bestYesAsk,
+    bestNoBid,
+    bestNoAsk,
+    spread,
+    mid,
+    yesDepth: state.yes.reduce((sum, l) => sum + l.quantity, 0),
+    noDepth: state.no.reduce((sum, l) => sum + l.quantity, 0),
+    // Bids on both sides adding up to a dollar or more would match immediately
+    crossed: spread !== null && spread <= 0,
+  };
+}
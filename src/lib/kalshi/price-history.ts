@@ -0,0 +1,65 @@
+/**
+ * Batched price history loader
+ * Coalesces history requests from every visible card into batch calls
+ */
+
+import { marketsApi } from "./client";
+import type { CandlestickInterval } from "./types";
+
+// Sparklines show the last 24 hours at hourly resolution
+const SPARKLINE_WINDOW_SEC = 24 * 60 * 60;
+const SPARKLINE_INTERVAL: CandlestickInterval = 60;
+
+// Cards mount within a few ms of each other, wait briefly to gather them
+const BATCH_WINDOW_MS = 20;
+
+interface PendingLoad {
+  resolve: (prices: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+const pending = new Map<string, PendingLoad[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function flush(): Promise<void> {
+  flushTimer = null;
+  const batch = new Map(pending);
+  pending.clear();
+
+  const endTs = Math.floor(Date.now() / 1000);
+  const startTs = endTs - SPARKLINE_WINDOW_SEC;
+
+  try {
+    const histories = await marketsApi.getBatchCandlesticks([...batch.keys()], {
+      periodInterval: SPARKLINE_INTERVAL,
+      startTs,
+      endTs,
+    });
+
+    for (const history of histories) {
+      const closes = history.candlesticks.map((c) => c.close);
+      batch.get(history.ticker)?.forEach((load) => load.resolve(closes));
+      batch.delete(history.ticker);
+    }
+
+    // Anything the API didn't return has no history
+    batch.forEach((loads) => loads.forEach((load) => load.resolve([])));
+  } catch (error) {
+    batch.forEach((loads) => loads.forEach((load) => load.reject(error)));
+  }
+}
+
+/**
+ * Load recent yes-price closes (0-1) for a market's sparkline
+ */
+export function loadSparklinePrices(ticker: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const loads = pending.get(ticker) ?? [];
+    loads.push({ resolve, reject });
+    pending.set(ticker, loads);
+
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, BATCH_WINDOW_MS);
+    }
+  });
+}
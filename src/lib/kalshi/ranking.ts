@@ -0,0 +1,212 @@
+/**
+ * Market ranking
+ * Pluggable strategies that score markets and explain the score. Every
+ * built-in is a weighted blend of the same metrics, each scaled to roughly
+ * 0-5 so weights are comparable.
+ */
+
+import type { Market } from "./types";
+
+const URGENCY_HORIZON_HOURS = 7 * 24;
+
+export const RANKING_METRICS = {
+  volume: {
+    label: "24h volume",
+    value: (m: Market) => Math.log10((m.volume_24h ?? 0) + 1),
+  },
+  liquidity: {
+    label: "Liquidity",
+    value: (m: Market) => Math.log10((m.liquidity ?? 0) + 1),
+  },
+  openInterest: {
+    label: "Open interest",
+    value: (m: Market) => Math.log10((m.open_interest ?? 0) + 1),
+  },
+  momentum: {
+    label: "24h move",
+    value: (m: Market) => Math.log10(Math.abs(m.change24h ?? 0) * 100 + 1),
+  },
+  // 1¢ spread scores 2, 10¢ scores 1, no two-sided quote scores 0
+  tightness: {
+    label: "Spread tightness",
+    value: (m: Market) =>
+      m.yes_bid > 0 && m.yes_ask > m.yes_bid ? Math.log10(100 / (m.yes_ask - m.yes_bid)) : 0,
+  },
+  // Ramps from 0 a week out to 2 at the close
+  urgency: {
+    label: "Closing soon",
+    value: (m: Market, nowMs: number) => {
+      const hours = (new Date(m.close_time).getTime() - nowMs) / (60 * 60 * 1000);
+      return hours > 0 && hours < URGENCY_HORIZON_HOURS ? 2 * (1 - hours / URGENCY_HORIZON_HOURS) : 0;
+    },
+  },
+};
+
+export type RankingMetric = keyof typeof RANKING_METRICS;
+export type RankingWeights = Partial<Record<RankingMetric, number>>;
+
+export interface ScoreComponent {
+  metric: RankingMetric;
+  label: string;
+  value: number;
+  weight: number;
+  contribution: number; // value x weight
+}
+
+export interface RankedMarket {
+  market: Market;
+  score: number;
+  breakdown: ScoreComponent[];
+}
+
+export interface MarketRanker {
+  id: string;
+  name: string;
+  description: string;
+  eligible: (market: Market, nowMs: number) => boolean;
+  score: (market: Market, nowMs: number) => ScoreComponent[];
+}
+
+// The old hot-market blend, and the starting point for the custom strategy
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  volume: 0.5,
+  liquidity: 0.3,
+  openInterest: 0.2,
+};
+
+/**
+ * Which markets a weighted strategy will rank. The open universe is not
+ * filtered for activity, so this is the only place quiet markets drop out.
+ */
+export interface RankingEligibility {
+  requireActivity: boolean; // Skip markets with no 24h volume and no resting liquidity
+  minVolume24h: number; // Contracts
+  minLiquidity: number; // Cents
+}
+
+// The old fixed rule: any trading or resting liquidity
+export const DEFAULT_RANKING_ELIGIBILITY: RankingEligibility = {
+  requireActivity: true,
+  minVolume24h: 0,
+  minLiquidity: 0,
+};
+
+/**
+ * Whether a market passes an eligibility config
+ */
+export function meetsEligibility(market: Market, eligibility: RankingEligibility): boolean {
+  const volume = market.volume_24h ?? 0;
+  const liquidity = market.liquidity ?? 0;
+  if (eligibility.requireActivity && volume === 0 && liquidity === 0) return false;
+  return volume >= eligibility.minVolume24h && liquidity >= eligibility.minLiquidity;
+}
+
+/**
+ * Build a ranker that scores a weighted sum of ranking metrics
+ */
+export function createWeightedRanker(
+  config: Pick<MarketRanker, "id" | "name" | "description"> & {
+    weights: RankingWeights;
+    eligibility?: RankingEligibility;
+    eligible?: MarketRanker["eligible"];
+  }
+): MarketRanker {
+  const metrics = (Object.keys(config.weights) as RankingMetric[]).filter(
+    (metric) => (config.weights[metric] ?? 0) !== 0
+  );
+
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    eligible:
+      config.eligible ??
+      ((market) => meetsEligibility(market, config.eligibility ?? DEFAULT_RANKING_ELIGIBILITY)),
+    score: (market, nowMs) =>
+      metrics.map((metric) => {
+        const weight = config.weights[metric] ?? 0;
+        const value = RANKING_METRICS[metric].value(market, nowMs);
+        return {
+          metric,
+          label: RANKING_METRICS[metric].label,
+          value,
+          weight,
+          contribution: value * weight,
+        };
+      }),
+  };
+}
+
+export const BUILT_IN_RANKERS = {
+  volume: createWeightedRanker({
+    id: "volume",
+    name: "Volume",
+    description: "Most contracts traded in the last 24 hours",
+    weights: { volume: 1 },
+    eligible: (m) => (m.volume_24h ?? 0) > 0,
+  }),
+  momentum: createWeightedRanker({
+    id: "momentum",
+    name: "Momentum",
+    description: "Biggest 24h price moves, backed by volume",
+    weights: { momentum: 1, volume: 0.25 },
+    eligible: (m) => (m.volume_24h ?? 0) > 0 && m.previous_price > 0,
+  }),
+  spread: createWeightedRanker({
+    id: "spread",
+    name: "Tight spreads",
+    description: "Cheapest to trade, with liquidity as a tiebreaker",
+    weights: { tightness: 1, liquidity: 0.1 },
+    eligible: (m) => m.yes_bid > 0 && m.yes_ask > m.yes_bid,
+  }),
+  closingSoon: createWeightedRanker({
+    id: "closingSoon",
+    name: "Closing soon",
+    description: "Liquid markets closing within a week",
+    weights: { urgency: 1, liquidity: 0.3 },
+    eligible: (m, nowMs) => (m.liquidity ?? 0) > 0 && RANKING_METRICS.urgency.value(m, nowMs) > 0,
+  }),
+} satisfies Record<string, MarketRanker>;
+
+export type RankerId = keyof typeof BUILT_IN_RANKERS | "custom";
+
+export const RANKER_IDS: RankerId[] = [...(Object.keys(BUILT_IN_RANKERS) as RankerId[]), "custom"];
+
+/**
+ * Look up a ranker. "custom" uses the weights and eligibility from settings.
+ */
+export function getRanker(
+  id: RankerId,
+  customWeights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
+  customEligibility: RankingEligibility = DEFAULT_RANKING_ELIGIBILITY
+): MarketRanker {
+  if (id !== "custom") return BUILT_IN_RANKERS[id];
+
+  return createWeightedRanker({
+    id: "custom",
+    name: "Custom",
+    description: "Your own blend of metrics, set in Settings",
+    weights: customWeights,
+    eligibility: customEligibility,
+  });
+}
+
+/**
+ * Score eligible markets and return the best first, with their breakdowns
+ */
+export function rankMarkets(
+  markets: Market[],
+  ranker: MarketRanker,
+  limit: number,
+  nowMs: number = Date.now()
+): RankedMarket[] {
+  return markets
+    .filter((market) => ranker.eligible(market, nowMs))
+    .map((market) => {
+      const breakdown = ranker.score(market, nowMs);
+      const score = breakdown.reduce((sum, c) => sum + c.contribution, 0);
+      return { market, score, breakdown };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,218 @@
+/**
+ * Oracle Risk Radar
+ * Scores how likely a market is to resolve in a way traders dispute,
+ * from its published rules and settlement terms. Every point on the score
+ * comes from a finding that carries the exact text that raised it, so the
+ * score can always be checked against the rules.
+ */
+
+import type { Market } from "./types";
+
+export type RiskFactor =
+  | "thin-rules"
+  | "vague-qualifier"
+  | "subjective-term"
+  | "missing-source"
+  | "early-close"
+  | "settlement-timer";
+
+export const RISK_FACTORS: Record<RiskFactor, string> = {
+  "thin-rules": "Thin rules",
+  "vague-qualifier": "Vague qualifiers",
+  "subjective-term": "Subjective terms",
+  "missing-source": "No named data source",
+  "early-close": "Early close clause",
+  "settlement-timer": "Long settlement timer",
+};
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskFinding {
+  factor: RiskFactor;
+  points: number;
+  phrases: string[]; // Exact text from the market that raised the score, empty when the risk is an absence
+  detail: string;
+}
+
+export interface ResolutionRisk {
+  score: number; // 0-100
+  level: RiskLevel;
+  findings: RiskFinding[]; // Highest points first
+}
+
+// Words that leave the threshold of the outcome open to interpretation
+const VAGUE_QUALIFIERS = [
+  /\bapproximately\b/gi,
+  /\broughly\b/gi,
+  /\baround\b/gi,
+  /\bsubstantial(?:ly)?\b/gi,
+  /\bsignificant(?:ly)?\b/gi,
+  /\bmaterial(?:ly)?\b/gi,
+  /\bgenerally\b/gi,
+  /\breasonabl[ey]\b/gi,
+  /\bor similar\b/gi,
+  /\bor equivalent\b/gi,
+  /\bsuch as\b/gi,
+  /\bincluding but not limited to\b/gi,
+  /\bnear(?:ly)?\b/gi,
+  /\bat least in part\b/gi,
+];
+
+// Terms that hand the outcome to someone's judgement
+const SUBJECTIVE_TERMS = [
+  /\bwidely report(?:s|ed)?\b/gi,
+  /\bcredible (?:reports?|sources?|reporting)\b/gi,
+  /\breliable (?:reports?|sources?|reporting)\b/gi,
+  /\bmajor (?:news|media) (?:outlets?|organizations?)\b/gi,
+  /\bconsensus\b/gi,
+  /\bsole discretion\b/gi,
+  /\bat (?:the|its) discretion\b/gi,
+  /\bin the (?:opinion|judgement|judgment) of\b/gi,
+  /\bdeemed\b/gi,
+  /\bas determined by kalshi\b/gi,
+  /\bclearly\b/gi,
+  /\bpublicly (?:confirm|announce|acknowledge)(?:s|d|ed)?\b/gi,
+];
+
+// Signs that the rules name where the outcome is read from
+const SOURCE_MARKERS = [
+  /\baccording to\b/i,
+  /\bas (?:reported|published|released) by\b/i,
+  /\bsource agency\b/i,
+  /\bsource(?:s)? (?:is|are|will be)\b/i,
+  /\bhttps?:\/\/\S+/i,
+  /\bwww\.\S+/i,
+  /\b(?:BLS|BEA|NOAA|NWS|FRED|CME|FOMC|SEC|FEC|CDC|AP|Associated Press|Reuters|Bloomberg)\b/,
+  /\b(?:Bureau|Department|Census|Treasury|Commission|Administration) of\b/i,
+  /\bFederal Reserve\b/i,
+];
+
+// Points per phrase, and the most one factor can add
+const VAGUE_POINTS = 8;
+const VAGUE_CAP = 24;
+const SUBJECTIVE_POINTS = 12;
+const SUBJECTIVE_CAP = 36;
+const MISSING_SOURCE_POINTS = 20;
+const THIN_RULES_POINTS = 15;
+const THIN_RULES_CHARS = 80;
+const EARLY_CLOSE_POINTS = 5;
+const EARLY_CLOSE_CONDITION_POINTS = 10;
+const TIMER_DAY_POINTS = 10;
+const TIMER_WEEK_POINTS = 20;
+
+// Score at which a market reads as medium, then high, risk
+const MEDIUM_RISK = 25;
+const HIGH_RISK = 50;
+
+/**
+ * Every distinct match of the patterns, in the text's own casing
+ */
+function matchPhrases(text: string, patterns: RegExp[]): string[] {
+  const found = new Map<string, string>();
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const key = match[0].toLowerCase();
+      if (!found.has(key)) found.set(key, match[0]);
+    }
+  }
+  return [...found.values()];
+}
+
+function phraseFinding(
+  factor: RiskFactor,
+  phrases: string[],
+  points: number,
+  cap: number
+): RiskFinding | null {
+  if (phrases.length === 0) return null;
+  return {
+    factor,
+    points: Math.min(phrases.length * points, cap),
+    phrases,
+    detail: `${phrases.length} ${phrases.length === 1 ? "phrase" : "phrases"} in the rules`,
+  };
+}
+
+function formatTimer(seconds: number): string {
+  const hours = seconds / 3600;
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${Math.round(hours)} hours`;
+}
+
+/**
+ * Bucket for a risk score, as shown on badges
+ */
+export function riskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK) return "high";
+  if (score >= MEDIUM_RISK) return "medium";
+  return "low";
+}
+
+/**
+ * Resolution-ambiguity score for a market. Points are added for thin
+ * rules, vague qualifiers, subjective terms, a missing named data source,
+ * early-close clauses and settlement timers over a day, capped at 100.
+ */
+export function analyzeResolutionRisk(market: Market): ResolutionRisk {
+  const rules = [market.rules_primary, market.rules_secondary].filter(Boolean).join("\n");
+  const findings: RiskFinding[] = [];
+
+  if (rules.trim().length < THIN_RULES_CHARS) {
+    findings.push({
+      factor: "thin-rules",
+      points: THIN_RULES_POINTS,
+      phrases: rules.trim() ? [rules.trim()] : [],
+      detail: rules.trim() ? `Only ${rules.trim().length} characters of rules` : "No rules published",
+    });
+  }
+
+  const vague = phraseFinding("vague-qualifier", matchPhrases(rules, VAGUE_QUALIFIERS), VAGUE_POINTS, VAGUE_CAP);
+  if (vague) findings.push(vague);
+
+  const subjective = phraseFinding(
+    "subjective-term",
+    matchPhrases(rules, SUBJECTIVE_TERMS),
+    SUBJECTIVE_POINTS,
+    SUBJECTIVE_CAP
+  );
+  if (subjective) findings.push(subjective);
+
+  if (rules.trim() && !SOURCE_MARKERS.some((pattern) => pattern.test(rules))) {
+    findings.push({
+      factor: "missing-source",
+      points: MISSING_SOURCE_POINTS,
+      phrases: [],
+      detail: "The rules don't name where the outcome is read from",
+    });
+  }
+
+  if (market.early_close_condition) {
+    findings.push({
+      factor: "early-close",
+      points: EARLY_CLOSE_CONDITION_POINTS + (market.can_close_early ? EARLY_CLOSE_POINTS : 0),
+      phrases: [market.early_close_condition],
+      detail: "Trading can stop before expiration on this condition",
+    });
+  } else if (market.can_close_early) {
+    findings.push({
+      factor: "early-close",
+      points: EARLY_CLOSE_POINTS,
+      phrases: [],
+      detail: "Can close early, with no condition published",
+    });
+  }
+
+  const timer = market.settlement_timer_seconds ?? 0;
+  if (timer > 24 * 60 * 60) {
+    findings.push({
+      factor: "settlement-timer",
+      points: timer > 7 * 24 * 60 * 60 ? TIMER_WEEK_POINTS : TIMER_DAY_POINTS,
+      phrases: [],
+      detail: `Settles ${formatTimer(timer)} after the outcome is known`,
+    });
+  }
+
+  findings.sort((a, b) => b.points - a.points);
+  const score = Math.min(100, findings.reduce((sum, f) => sum + f.points, 0));
+
+  return { score, level: riskLevel(score), findings };
+}
@@ -0,0 +1,440 @@
+/**
+ * Kalshi API Schemas
+ * Runtime validation for API responses, mirroring the interfaces in types.ts
+ */
+
+import { z } from "zod";
+import type {
+  Market,
+  Event,
+  Series,
+  OrderBookEntry,
+  Balance,
+  MarketPosition,
+  EventPosition,
+  Fill,
+  Settlement,
+  Order,
+  Trade,
+  MarketsResponse,
+  EventsResponse,
+  TradesResponse,
+} from "./types";
+
+// Kalshi sends null for absent optional fields, our types use undefined
+function optional<T extends z.ZodType>(schema: T) {
+  return schema.nullish().transform((value) => value ?? undefined);
+}
+
+const marketStatusSchema = z.enum([
+  "unopened",
+  "initialized",
+  "open",
+  "active",
+  "inactive",
+  "closed",
+  "determined",
+  "disputed",
+  "amended",
+  "settled",
+  "finalized",
+]);
+
+const priceRangeSchema = z.looseObject({
+  start: z.string(),
+  end: z.string(),
+  step: z.string(),
+});
+
+export const marketSchema = z.looseObject({
+  // Core identifiers
+  ticker: z.string(),
+  title: z.string(),
+  subtitle: optional(z.string()),
+  event_ticker: z.string(),
+  category: optional(z.string()),
+
+  // Market state
+  status: marketStatusSchema,
+  market_type: z.enum(["binary", "scalar"]),
+  result: optional(z.string()),
+
+  // Pricing (in cents, 0-100)
+  yes_ask: z.number(),
+  yes_bid: z.number(),
+  no_ask: z.number(),
+  no_bid: z.number(),
+  last_price: z.number(),
+  previous_price: z.number(),
+
+  // Pricing in dollars (string format)
+  yes_ask_dollars: optional(z.string()),
+  yes_bid_dollars: optional(z.string()),
+  no_ask_dollars: optional(z.string()),
+  no_bid_dollars: optional(z.string()),
+  last_price_dollars: optional(z.string()),
+  previous_price_dollars: optional(z.string()),
+
+  // Volume and liquidity
+  volume: z.number(),
+  volume_24h: z.number(),
+  open_interest: z.number(),
+  liquidity: z.number(),
+  liquidity_dollars: optional(z.string()),
+
+  // Notional value
+  notional_value: z.number(),
+  notional_value_dollars: optional(z.string()),
+
+  // Timing
+  open_time: z.string(),
+  close_time: z.string(),
+  expiration_time: z.string(),
+  expected_expiration_time: optional(z.string()),
+  latest_expiration_time: optional(z.string()),
+  created_time: z.string(),
+
+  // Rules and description
+  rules_primary: z.string(),
+  rules_secondary: optional(z.string()),
+  yes_sub_title: optional(z.string()),
+  no_sub_title: optional(z.string()),
+
+  // Settlement
+  settlement_timer_seconds: optional(z.number()),
+  can_close_early: z.boolean(),
+  early_close_condition: optional(z.string()),
+  expiration_value: optional(z.string()),
+
+  // Price structure
+  tick_size: z.number(),
+  price_level_structure: optional(z.string()),
+  price_ranges: optional(z.array(priceRangeSchema)),
+  response_price_units: optional(z.string()),
+  risk_limit_cents: optional(z.number()),
+}) satisfies z.ZodType<Market>;
+
+export const eventSchema = z.looseObject({
+  event_ticker: z.string(),
+  title: z.string(),
+  category: z.string(),
+  mutually_exclusive: z.boolean(),
+  series_ticker: optional(z.string()),
+  markets: optional(z.array(marketSchema)),
+}) satisfies z.ZodType<Event>;
+
+export const seriesSchema = z.looseObject({
+  ticker: z.string(),
+  title: z.string(),
+  frequency: z.string(),
+  category: z.string(),
+  tags: optional(z.array(z.string())),
+  settlement_sources: optional(
+    z.array(z.looseObject({ name: z.string(), url: z.string() }))
+  ),
+  contract_url: optional(z.string()),
+}) satisfies z.ZodType<Series>;
+
+// Kalshi sends order book levels as [price, quantity] tuples
+const orderBookLevelsSchema = optional(
+  z.array(z.tuple([z.number(), z.number()]))
+).transform((levels): OrderBookEntry[] =>
+  (levels ?? []).map(([price, quantity]) => ({ price, quantity }))
+);
+
+export const orderBookSchema = z.looseObject({
+  yes: orderBookLevelsSchema,
+  no: orderBookLevelsSchema,
+});
+
+export const tradeSchema = z.looseObject({
+  trade_id: z.string(),
+  ticker: z.string(),
+  taker_side: z.enum(["yes", "no"]),
+  count: z.number(),
+  yes_price: z.number(),
+  no_price: z.number(),
+  created_time: z.string(),
+}) satisfies z.ZodType<Trade>;
+
+// API Response Schemas
+const cursorSchema = optional(z.string());
+
+export const marketsResponseSchema = z.looseObject({
+  markets: optional(z.array(marketSchema)).transform((m) => m ?? []),
+  cursor: cursorSchema,
+}) satisfies z.ZodType<MarketsResponse>;
+
+export const marketResponseSchema = z.looseObject({
+  market: marketSchema,
+});
+
+export const eventsResponseSchema = z.looseObject({
+  events: optional(z.array(eventSchema)).transform((e) => e ?? []),
+  cursor: cursorSchema,
+}) satisfies z.ZodType<EventsResponse>;
+
+export const eventResponseSchema = z.looseObject({
+  event: eventSchema,
+  markets: optional(z.array(marketSchema)),
+});
+
+export const seriesResponseSchema = z.looseObject({
+  series: seriesSchema,
+});
+
+export const seriesListResponseSchema = z.looseObject({
+  series: optional(z.array(seriesSchema)).transform((s) => s ?? []),
+});
+
+export const orderBookResponseSchema = z.looseObject({
+  orderbook: orderBookSchema,
+});
+
+// Candlestick OHLC fields are null for periods without activity
+const ohlcSchema = z.looseObject({
+  open: optional(z.number()),
+  high: optional(z.number()),
+  low: optional(z.number()),
+  close: optional(z.number()),
+});
+
+export const kalshiCandlestickSchema = z.looseObject({
+  end_period_ts: z.number(),
+  volume: z.number(),
+  open_interest: optional(z.number()),
+  price: ohlcSchema.extend({
+    mean: optional(z.number()),
+    previous: optional(z.number()),
+  }),
+  yes_bid: ohlcSchema,
+  yes_ask: ohlcSchema,
+});
+
+export type KalshiCandlestick = z.infer<typeof kalshiCandlestickSchema>;
+
+export const candlesticksResponseSchema = z.looseObject({
+  ticker: optional(z.string()),
+  candlesticks: optional(z.array(kalshiCandlestickSchema)).transform(
+    (c) => c ?? []
+  ),
+});
+
+export const batchCandlesticksResponseSchema = z.looseObject({
+  markets: optional(
+    z.array(
+      z.looseObject({
+        market_ticker: z.string(),
+        candlesticks: optional(z.array(kalshiCandlestickSchema)).transform(
+          (c) => c ?? []
+        ),
+      })
+    )
+  ).transform((m) => m ?? []),
+});
+
+export const tradesResponseSchema = z.looseObject({
+  trades: optional(z.array(tradeSchema)).transform((t) => t ?? []),
+  cursor: cursorSchema,
+}) satisfies z.ZodType<TradesResponse>;
+
+// Portfolio Schemas
+export const balanceSchema = z.looseObject({
+  balance: z.number(),
+  portfolio_value: optional(z.number()),
+  updated_ts: optional(z.number()),
+}) satisfies z.ZodType<Balance>;
+
+export const marketPositionSchema = z.looseObject({
+  ticker: z.string(),
+  position: z.number(),
+  total_traded: z.number(),
+  market_exposure: z.number(),
+  realized_pnl: z.number(),
+  resting_orders_count: z.number(),
+  fees_paid: z.number(),
+  last_updated_ts: optional(z.string()),
+}) satisfies z.ZodType<MarketPosition>;
+
+export const eventPositionSchema = z.looseObject({
+  event_ticker: z.string(),
+  total_cost: z.number(),
+  event_exposure: z.number(),
+  realized_pnl: z.number(),
+  resting_order_count: z.number(),
+  fees_paid: z.number(),
+}) satisfies z.ZodType<EventPosition>;
+
+export const fillSchema = z.looseObject({
+  trade_id: z.string(),
+  order_id: z.string(),
+  ticker: z.string(),
+  side: z.enum(["yes", "no"]),
+  action: z.enum(["buy", "sell"]),
+  count: z.number(),
+  yes_price: z.number(),
+  no_price: z.number(),
+  is_taker: z.boolean(),
+  created_time: z.string(),
+}) satisfies z.ZodType<Fill>;
+
+export const settlementSchema = z.looseObject({
+  ticker: z.string(),
+  market_result: z.string(),
+  yes_count: z.number(),
+  yes_total_cost: z.number(),
+  no_count: z.number(),
+  no_total_cost: z.number(),
+  revenue: z.number(),
+  settled_time: z.string(),
+}) satisfies z.ZodType<Settlement>;
+
+export const orderSchema = z.looseObject({
+  order_id: z.string(),
+  client_order_id: z.string(),
+  ticker: z.string(),
+  side: z.enum(["yes", "no"]),
+  action: z.enum(["buy", "sell"]),
+  type: z.enum(["limit", "market"]),
+  status: z.enum(["resting", "canceled", "executed", "pending"]),
+  yes_price: z.number(),
+  no_price: z.number(),
+  initial_count: optional(z.number()),
+  remaining_count: optional(z.number()),
+  fill_count: optional(z.number()),
+  taker_fees: optional(z.number()),
+  maker_fees: optional(z.number()),
+  created_time: optional(z.string()),
+  expiration_time: optional(z.string()),
+  last_update_time: optional(z.string()),
+}) satisfies z.ZodType<Order>;
+
+export const orderResponseSchema = z.looseObject({
+  order: orderSchema,
+});
+
+export const ordersResponseSchema = z.looseObject({
+  orders: optional(z.array(orderSchema)).transform((o) => o ?? []),
+  cursor: cursorSchema,
+});
+
+export const amendOrderResponseSchema = z.looseObject({
+  old_order: orderSchema,
+  order: orderSchema,
+});
+
+export const cancelOrderResponseSchema = z.looseObject({
+  order: orderSchema,
+  reduced_by: z.number(),
+});
+
+export const batchOrdersResponseSchema = z.looseObject({
+  orders: z.array(
+    z.looseObject({
+      order: optional(orderSchema),
+      error: optional(z.looseObject({ code: z.string(), message: z.string() })),
+    })
+  ),
+});
+
+export const positionsResponseSchema = z.looseObject({
+  market_positions: optional(z.array(marketPositionSchema)).transform(
+    (p) => p ?? []
+  ),
+  event_positions: optional(z.array(eventPositionSchema)).transform(
+    (p) => p ?? []
+  ),
+  cursor: cursorSchema,
+});
+
+export const fillsResponseSchema = z.looseObject({
+  fills: optional(z.array(fillSchema)).transform((f) => f ?? []),
+  cursor: cursorSchema,
+});
+
+export const settlementsResponseSchema = z.looseObject({
+  settlements: optional(z.array(settlementSchema)).transform((s) => s ?? []),
+  cursor: cursorSchema,
+});
+
+/**
+ * Format a zod issue path as a readable field reference, e.g. markets[3].yes_ask
+ */
+export function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === "number") return `${acc}[${key}]`;
+    return acc ? `${acc}.${String(key)}` : String(key);
+  }, "");
+}
+
+// Each unknown field is reported once per session rather than once per market
+const reportedUnknownFields = new Set<string>();
+
+/**
+ * Unwrap optional/nullable/transform wrappers to reach the underlying schema
+ */
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema.unwrap() as z.ZodType);
+  }
+  if (schema instanceof z.ZodPipe) {
+    return unwrapSchema(schema.in as z.ZodType);
+  }
+  return schema;
+}
+
+/**
+ * Collect fields present in the payload that the schema doesn't declare
+ */
+function collectUnknownFields(
+  schema: z.ZodType,
+  data: unknown,
+  path: string,
+  found: Set<string>
+): void {
+  const inner = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodArray && Array.isArray(data)) {
+    for (const item of data) {
+      collectUnknownFields(inner.element as z.ZodType, item, `${path}[]`, found);
+    }
+    return;
+  }
+
+  if (inner instanceof z.ZodObject && data && typeof data === "object") {
+    const shape = inner.shape as Record<string, z.ZodType>;
+    for (const [key, value] of Object.entries(data)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (key in shape) {
+        collectUnknownFields(shape[key], value, fieldPath, found);
+      } else {
+        found.add(fieldPath);
+      }
+    }
+  }
+}
+
+/**
+ * Log fields Kalshi has added that our schemas don't know about yet
+ */
+export function reportUnknownFields(
+  schema: z.ZodType,
+  data: unknown,
+  source: string
+): void {
+  const found = new Set<string>();
+  collectUnknownFields(schema, data, "", found);
+
+  const fresh = [...found].filter((field) => {
+    const key = `${source}:${field}`;
+    if (reportedUnknownFields.has(key)) return false;
+    reportedUnknownFields.add(key);
+    return true;
+  });
+
+  if (fresh.length > 0) {
+    console.warn(
+      `[kalshi] Unknown fields in ${source} response: ${fresh.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Market screener
+ * Evaluates AND/OR rule groups over normalized markets. Prices and spreads
+ * are in cents, liquidity and notional in dollars.
+ */
+
+import type { Market } from "./types";
+
+export interface ScreenField {
+  label: string;
+  unit?: string;
+  value: (market: Market, nowMs: number) => number | null;
+}
+
+function hasTwoSidedQuote(market: Market): boolean {
+  return market.yes_bid > 0 && market.yes_ask > 0;
+}
+
+export const SCREEN_FIELDS = {
+  yes_ask: { label: "Yes ask", unit: "¢", value: (m) => m.yes_ask },
+  yes_bid: { label: "Yes bid", unit: "¢", value: (m) => m.yes_bid },
+  last_price: { label: "Last price", unit: "¢", value: (m) => m.last_price },
+  mid: {
+    label: "Mid price",
+    unit: "¢",
+    value: (m) => (hasTwoSidedQuote(m) ? (m.yes_bid + m.yes_ask) / 2 : null),
+  },
+  spread: {
+    label: "Spread",
+    unit: "¢",
+    value: (m) => (hasTwoSidedQuote(m) ? m.yes_ask - m.yes_bid : null),
+  },
+  volume_24h: { label: "24h volume", value: (m) => m.volume_24h ?? 0 },
+  volume: { label: "Total volume", value: (m) => m.volume },
+  open_interest: { label: "Open interest", value: (m) => m.open_interest },
+  liquidity: { label: "Liquidity", unit: "$", value: (m) => (m.liquidity ?? 0) / 100 },
+  hours_to_close: {
+    label: "Hours to close",
+    unit: "h",
+    value: (m, nowMs) => (new Date(m.close_time).getTime() - nowMs) / (60 * 60 * 1000),
+  },
+  change24h: {
+    label: "24h change",
+    unit: "%",
+    value: (m) => (m.change24h ?? 0) * 100,
+  },
+  // Computed metrics
+  notional_24h: {
+    label: "24h notional",
+    unit: "$",
+    value: (m) => ((m.volume_24h ?? 0) * m.last_price) / 100,
+  },
+  turnover: {
+    label: "Turnover (24h vol / OI)",
+    value: (m) => (m.open_interest > 0 ? (m.volume_24h ?? 0) / m.open_interest : null),
+  },
+  // Distance from a coin flip; low values are the most contested markets
+  conviction: {
+    label: "Conviction",
+    unit: "¢",
+    value: (m) => Math.abs(m.last_price - 50),
+  },
+} satisfies Record<string, ScreenField>;
+
+export type ScreenFieldKey = keyof typeof SCREEN_FIELDS;
+
+export type ScreenOperator = "gt" | "gte" | "lt" | "lte" | "between";
+
+export const SCREEN_OPERATORS: Record<ScreenOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "between",
+};
+
+export interface ScreenRule {
+  field: ScreenFieldKey;
+  operator: ScreenOperator;
+  value: number;
+  value2?: number; // Upper bound for "between"
+}
+
+export interface ScreenGroup {
+  combinator: "and" | "or";
+  rules: (ScreenRule | ScreenGroup)[];
+}
+
+export interface Screen {
+  id: string;
+  name: string;
+  root: ScreenGroup;
+  updatedAt: string;
+}
+
+function isGroup(node: ScreenRule | ScreenGroup): node is ScreenGroup {
+  return "combinator" in node;
+}
+
+/**
+ * Whether a market passes one rule. Markets missing the metric never pass.
+ */
+export function matchesRule(market: Market, rule: ScreenRule, nowMs: number = Date.now()): boolean {
+  const value = SCREEN_FIELDS[rule.field].value(market, nowMs);
+  if (value === null || !Number.isFinite(value)) return false;
+
+  switch (rule.operator) {
+    case "gt":
+      return value > rule.value;
+    case "gte":
+      return value >= rule.value;
+    case "lt":
+      return value < rule.value;
+    case "lte":
+      return value <= rule.value;
+    case "between":
+      return value >= rule.value && value <= (rule.value2 ?? rule.value);
+  }
+}
+
+/**
+ * Whether a market passes a group. Empty groups match everything.
+ */
+export function matchesGroup(market: Market, group: ScreenGroup, nowMs: number = Date.now()): boolean {
+  if (group.rules.length === 0) return true;
+
+  const test = (node: ScreenRule | ScreenGroup) =>
+    isGroup(node) ? matchesGroup(market, node, nowMs) : matchesRule(market, node, nowMs);
+
+  return group.combinator === "and" ? group.rules.every(test) : group.rules.some(test);
+}
+
+/**
+ * Markets that pass a screen, in their original order
+ */
+export function runScreen(markets: Market[], screen: Pick<Screen, "root">, nowMs: number = Date.now()): Market[] {
+  return markets.filter((market) => matchesGroup(market, screen.root, nowMs));
+}
+
+/**
+ * Starting points shown before anything is saved
+ */
+export const PRESET_SCREENS: Screen[] = [
+  {
+    id: "preset-liquid-tossups",
+    name: "Liquid toss-ups",
+    updatedAt: "",
+    root: {
+      combinator: "and",
+      rules: [
+        { field: "mid", operator: "between", value: 35, value2: 65 },
+        { field: "spread", operator: "lte", value: 3 },
+        { field: "liquidity", operator: "gte", value: 1000 },
+      ],
+    },
+  },
+  {
+    id: "preset-closing-active",
+    name: "Closing within a day, still trading",
+    updatedAt: "",
+    root: {
+      combinator: "and",
+      rules: [
+        { field: "hours_to_close", operator: "between", value: 0, value2: 24 },
+        {
+          combinator: "or",
+          rules: [
+            { field: "volume_24h", operator: "gte", value: 1000 },
+            { field: "turnover", operator: "gte", value: 0.5 },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    id: "preset-big-movers",
+    name: "Big movers",
+    updatedAt: "",
+    root: {
+      combinator: "or",
+      rules: [
+        { field: "change24h", operator: "gte", value: 20 },
+        { field: "change24h", operator: "lte", value: -20 },
+      ],
+    },
+  },
+];
@@ -0,0 +1,48 @@
+/**
+ * Series helpers
+ * Groups a recurring series' markets into per-event instances
+ */
+
+import type { Event, Market, SeriesInstance } from "./types";
+
+const SETTLED_STATUSES: Market["status"][] = ["settled", "determined", "finalized"];
+
+/**
+ * Group markets by event and work out how each instance settled.
+ * Instances are sorted newest first by their latest close time.
+ */
+export function buildSeriesInstances(
+  events: Event[],
+  markets: Market[]
+): SeriesInstance[] {
+  const titles = new Map(events.map((e) => [e.event_ticker, e.title]));
+  const byEvent = new Map<string, Market[]>();
+
+  for (const market of markets) {
+    const group = byEvent.get(market.event_ticker) ?? [];
+    group.push(market);
+    byEvent.set(market.event_ticker, group);
+  }
+
+  const instances = [...byEvent.entries()].map(
+    ([eventTicker, group]): SeriesInstance => {
+      const closeTime = group.reduce(
+        (latest, m) => (m.close_time > latest ? m.close_time : latest),
+        ""
+      );
+
+      return {
+        event_ticker: eventTicker,
+        title: titles.get(eventTicker) ?? group[0].title,
+        close_time: closeTime,
+        markets: group,
+        winner: group.find((m) => m.result === "yes"),
+        settled: group.every((m) => SETTLED_STATUSES.includes(m.status)),
+      };
+    }
+  );
+
+  return instances.sort(
+    (a, b) => new Date(b.close_time).getTime() - new Date(a.close_time).getTime()
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Smart money detection
+ * Kalshi's public tape has no accounts, so "whales" are inferred from the
+ * trades themselves: prints far larger than a market's typical size, runs
+ * of same-side aggressive trades and sudden jumps in open interest.
+ * The taker bought the side in taker_side, so every signal is a buy of
+ * yes or no.
+ */
+
+import type { Market, SmartMoneySignal, Trade } from "./types";
+
+export type WhaleSignalKind = "outsized-print" | "aggressive-cluster" | "oi-jump";
+
+export const WHALE_SIGNAL_KINDS: Record<WhaleSignalKind, string> = {
+  "outsized-print": "Outsized print",
+  "aggressive-cluster": "Aggressive cluster",
+  "oi-jump": "Open interest jump",
+};
+
+export interface WhaleSignal extends SmartMoneySignal {
+  id: string;
+  kind: WhaleSignalKind;
+  price: number; // Cents paid for the side bought
+  notional: number; // Dollars
+  detail: string;
+}
+
+export interface WhaleDetectionOptions {
+  printMultiple: number; // Print size vs the market's median trade
+  minPrintContracts: number;
+  clusterWindowMs: number; // Max gap between trades in a cluster
+  minClusterTrades: number;
+  clusterMultiple: number; // Cluster total vs the market's median trade
+  minSample: number; // Trades needed before a market's own median is trusted
+}
+
+export const DEFAULT_WHALE_OPTIONS: WhaleDetectionOptions = {
+  printMultiple: 10,
+  minPrintContracts: 250,
+  clusterWindowMs: 2 * 60 * 1000,
+  minClusterTrades: 4,
+  clusterMultiple: 25,
+  minSample: 8,
+};
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function sidePrice(trade: Trade): number {
+  return trade.taker_side === "yes" ? trade.yes_price : trade.no_price;
+}
+
+/**
+ * Median trade size per market, falling back to the tape-wide median for
+ * markets with too few trades to judge
+ */
+export function typicalTradeSizes(trades: Trade[], minSample: number): (ticker: string) => number {
+  const byTicker = new Map<string, number[]>();
+  for (const trade of trades) {
+    const sizes = byTicker.get(trade.ticker) ?? [];
+    sizes.push(trade.count);
+    byTicker.set(trade.ticker, sizes);
+  }
+
+  const overall = median(trades.map((t) => t.count));
+  const medians = new Map(
+    [...byTicker].filter(([, sizes]) => sizes.length >= minSample).map(([ticker, sizes]) => [ticker, median(sizes)])
+  );
+
+  return (ticker) => Math.max(1, medians.get(ticker) ?? overall);
+}
+
+/**
+ * Single trades many times larger than the market usually sees
+ */
+export function detectOutsizedPrints(
+  trades: Trade[],
+  options: WhaleDetectionOptions = DEFAULT_WHALE_OPTIONS
+): WhaleSignal[] {
+  const typical = typicalTradeSizes(trades, options.minSample);
+
+  return trades.flatMap((trade) => {
+    const multiple = trade.count / typical(trade.ticker);
+    if (trade.count < options.minPrintContracts || multiple < options.printMultiple) return [];
+
+    const price = sidePrice(trade);
+    return [
+      {
+        id: `print:${trade.trade_id}`,
+        kind: "outsized-print" as const,
+        marketId: trade.ticker,
+        action: "buy" as const,
+        side: trade.taker_side,
+        size: trade.count,
+        price,
+        notional: (trade.count * price) / 100,
+        timestamp: trade.created_time,
+        detail: `${trade.count.toLocaleString()} contracts, ${Math.round(multiple)}× the typical trade`,
+      },
+    ];
+  });
+}
+
+/**
+ * Runs of consecutive same-side taker trades in one market, each close on
+ * the heels of the last, that add up to an outsized position
+ */
+export function detectAggressiveClusters(
+  trades: Trade[],
+  options: WhaleDetectionOptions = DEFAULT_WHALE_OPTIONS
+): WhaleSignal[] {
+  const typical = typicalTradeSizes(trades, options.minSample);
+
+  const byTicker = new Map<string, Trade[]>();
+  for (const trade of trades) {
+    const list = byTicker.get(trade.ticker) ?? [];
+    list.push(trade);
+    byTicker.set(trade.ticker, list);
+  }
+
+  const signals: WhaleSignal[] = [];
+  for (const [ticker, list] of byTicker) {
+    const ordered = [...list].sort(
+      (a, b) => new Date(a.created_time).getTime() - new Date(b.created_time).getTime()
+    );
+
+    let run: Trade[] = [];
+    const flush = () => {
+      const size = run.reduce((sum, t) => sum + t.count, 0);
+      if (run.length >= options.minClusterTrades && size >= options.clusterMultiple * typical(ticker)) {
+        const notional = run.reduce((sum, t) => sum + (t.count * sidePrice(t)) / 100, 0);
+        const first = run[0];
+        const last = run[run.length - 1];
+        signals.push({
+          id: `cluster:${first.trade_id}`,
+          kind: "aggressive-cluster",
+          marketId: ticker,
+          action: "buy",
+          side: first.taker_side,
+          size,
+          price: Math.round((notional * 100) / size),
+          notional,
+          timestamp: last.created_time,
+          detail: `${run.length} ${first.taker_side} buys totalling ${size.toLocaleString()} contracts in ${Math.max(
+            1,
+            Math.round((new Date(last.created_time).getTime() - new Date(first.created_time).getTime()) / 1000)
+          )}s`,
+        });
+      }
+      run = [];
+    };
+
+    for (const trade of ordered) {
+      const previous = run[run.length - 1];
+      const continues =
+        previous &&
+        previous.taker_side === trade.taker_side &&
+        new Date(trade.created_time).getTime() - new Date(previous.created_time).getTime() <=
+          options.clusterWindowMs;
+      if (!continues) flush();
+      run.push(trade);
+    }
+    flush();
+  }
+
+  return signals;
+}
+
+export interface OpenInterestSnapshot {
+  openInterest: number;
+  lastPrice: number;
+  timestamp: string;
+}
+
+// A jump must clear both bars to count
+const OI_JUMP_MIN_CONTRACTS = 1000;
+const OI_JUMP_MIN_RATIO = 0.2;
+
+/**
+ * New positions opening quickly between two snapshots of a market. The
+ * side is read from the price move: rising means yes was being bought.
+ */
+export function detectOpenInterestJump(
+  previous: OpenInterestSnapshot,
+  market: Market,
+  nowIso: string
+): WhaleSignal | null {
+  const added = market.open_interest - previous.openInterest;
+  if (added < OI_JUMP_MIN_CONTRACTS || added < previous.openInterest * OI_JUMP_MIN_RATIO) return null;
+
+  const side = market.last_price >= previous.lastPrice ? "yes" : "no";
+  const price = side === "yes" ? market.last_price : 100 - market.last_price;
+
+  return {
+    id: `oi:${market.ticker}:${nowIso}`,
+    kind: "oi-jump",
+    marketId: market.ticker,
+    action: "buy",
+    side,
+    size: added,
+    price,
+    notional: (added * price) / 100,
+    timestamp: nowIso,
+    detail: `Open interest up ${added.toLocaleString()} (${Math.round((added / Math.max(previous.openInterest, 1)) * 100)}%) since ${new Date(
+      previous.timestamp
+    ).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`,
+  };
+}
+
+/**
+ * Every print and cluster signal on a tape, newest first
+ */
+export function detectWhaleTrades(
+  trades: Trade[],
+  options: WhaleDetectionOptions = DEFAULT_WHALE_OPTIONS
+): WhaleSignal[] {
+  return [...detectOutsizedPrints(trades, options), ...detectAggressiveClusters(trades, options)].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { KalshiStream, StreamSubscriptionError } from "./stream";
+
+// Just enough of a WebSocket to drive the client by hand
+class FakeSocket {
+  static last: FakeSocket | null = null;
+  static opened = 0;
+
+  readyState = 0;
+  sent: Record<string, unknown>[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeSocket.last = this;
+    FakeSocket.opened++;
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(frame: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  // The server side going away
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+function openStream() {
+  const stream = new KalshiStream({
+    url: "ws://test",
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    WebSocketImpl: FakeSocket as unknown as typeof WebSocket,
+  });
+  stream.connect();
+  const socket = FakeSocket.last!;
+  socket.open();
+  return { stream, socket };
+}
+
+// Subscribe and acknowledge, returning the subscribe command that was sent
+function subscribeAcked(socket: FakeSocket, sid: number) {
+  const subscribe = socket.sent.filter((c) => c.cmd === "subscribe").at(-1)!;
+  socket.receive({ id: subscribe.id, type: "subscribed", msg: { channel: "orderbook_delta", sid } });
+  return subscribe;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("KalshiStream", () => {
+  it("unsubscribes once acknowledged when dropped before the ack", () => {
+    const { stream, socket } = openStream();
+
+    const unsubscribe = stream.subscribe("ticker", ["A"], () => {});
+    const subscribe = socket.sent.find((c) => c.cmd === "subscribe")!;
+    unsubscribe();
+    expect(socket.sent.some((c) => c.cmd === "unsubscribe")).toBe(false);
+
+    socket.receive({ id: subscribe.id, type: "subscribed", msg: { channel: "ticker", sid: 7 } });
+
+    expect(socket.sent.at(-1)).toMatchObject({ cmd: "unsubscribe", params: { sids: [7] } });
+  });
+
+  it("keeps live subscriptions and unsubscribes them by sid", () => {
+    const { stream, socket } = openStream();
+    const received: unknown[] = [];
+
+    const unsubscribe = stream.subscribe("ticker", ["A"], (message) => received.push(message));
+    const subscribe = socket.sent.find((c) => c.cmd === "subscribe")!;
+    socket.receive({ id: subscribe.id, type: "subscribed", msg: { channel: "ticker", sid: 3 } });
+    socket.receive({ type: "ticker", sid: 3, msg: { market_ticker: "A" } });
+
+    expect(received).toHaveLength(1);
+    expect(socket.sent.some((c) => c.cmd === "unsubscribe")).toBe(false);
+
+    unsubscribe();
+    expect(socket.sent.at(-1)).toMatchObject({ cmd: "unsubscribe", params: { sids: [3] } });
+  });
+
+  it("reports a sequence gap and resubscribes for a fresh snapshot", () => {
+    const { stream, socket } = openStream();
+    const received: unknown[] = [];
+    const gaps: unknown[] = [];
+    stream.onGap((gap) => gaps.push(gap));
+
+    stream.subscribe("orderbook_delta", ["A"], (message) => received.push(message));
+    subscribeAcked(socket, 4);
+    socket.receive({ type: "orderbook_snapshot", sid: 4, seq: 1, msg: { market_ticker: "A" } });
+    socket.receive({ type: "orderbook_delta", sid: 4, seq: 2, msg: { market_ticker: "A" } });
+    socket.receive({ type: "orderbook_delta", sid: 4, seq: 4, msg: { market_ticker: "A" } });
+
+    expect(received).toHaveLength(2);
+    expect(gaps).toEqual([{ channel: "orderbook_delta", expected: 3, received: 4 }]);
+    expect(socket.sent.slice(-2)).toMatchObject([
+      { cmd: "unsubscribe", params: { sids: [4] } },
+      { cmd: "subscribe", params: { channels: ["orderbook_delta"], market_tickers: ["A"] } },
+    ]);
+
+    // Late deltas on the old sid are dropped; the new one starts from its snapshot
+    socket.receive({ type: "orderbook_delta", sid: 4, seq: 5, msg: { market_ticker: "A" } });
+    subscribeAcked(socket, 9);
+    socket.receive({ type: "orderbook_snapshot", sid: 9, seq: 1, msg: { market_ticker: "A" } });
+    expect(received).toHaveLength(3);
+  });
+
+  it("reconnects with a growing backoff that resets once connected", () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const { stream, socket } = openStream();
+    stream.subscribe("ticker", ["A"], () => {});
+    const before = FakeSocket.opened;
+
+    socket.drop();
+    expect(stream.getStatus()).toBe("reconnecting");
+    vi.advanceTimersByTime(99);
+    expect(FakeSocket.opened).toBe(before);
+    vi.advanceTimersByTime(1);
+    expect(FakeSocket.opened).toBe(before + 1);
+
+    // Failing again before it opens doubles the wait
+    FakeSocket.last!.drop();
+    vi.advanceTimersByTime(199);
+    expect(FakeSocket.opened).toBe(before + 1);
+    vi.advanceTimersByTime(1);
+    expect(FakeSocket.opened).toBe(before + 2);
+
+    FakeSocket.last!.open();
+    expect(stream.getStatus()).toBe("open");
+    FakeSocket.last!.drop();
+    vi.advanceTimersByTime(100);
+    expect(FakeSocket.opened).toBe(before + 3);
+  });
+
+  it("resubscribes every subscription after reconnecting", () => {
+    vi.useFakeTimers();
+    const { stream, socket } = openStream();
+    const received: unknown[] = [];
+    stream.subscribe("ticker", ["A", "B"], (message) => received.push(message));
+    stream.subscribe("trade", undefined, () => {});
+    subscribeAcked(socket, 1);
+
+    socket.drop();
+    vi.advanceTimersByTime(1000);
+    const next = FakeSocket.last!;
+    expect(next).not.toBe(socket);
+    next.open();
+
+    expect(next.sent).toMatchObject([
+      { cmd: "subscribe", params: { channels: ["ticker"], market_tickers: ["A", "B"] } },
+      { cmd: "subscribe", params: { channels: ["trade"] } },
+    ]);
+
+    // Sids from the old connection no longer route anywhere
+    next.receive({ type: "ticker", sid: 1, msg: { market_ticker: "A" } });
+    expect(received).toHaveLength(0);
+    next.receive({ id: next.sent[0].id, type: "subscribed", msg: { channel: "ticker", sid: 2 } });
+    next.receive({ type: "ticker", sid: 2, msg: { market_ticker: "A" } });
+    expect(received).toHaveLength(1);
+  });
+
+  it("drops a subscription the server rejects and tells the subscriber", () => {
+    vi.useFakeTimers();
+    const { stream, socket } = openStream();
+    const errors: StreamSubscriptionError[] = [];
+
+    stream.subscribe("ticker", ["A"], () => {}, (error) => errors.push(error));
+    const subscribe = socket.sent.at(-1)!;
+    socket.receive({ id: subscribe.id, type: "error", msg: { code: 6, msg: "Unknown market" } });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ code: 6, channel: "ticker", message: "Unknown market" });
+
+    // Nothing is left to resend, so losing the connection doesn't reconnect
+    const opened = FakeSocket.opened;
+    socket.drop();
+    vi.advanceTimersByTime(1000);
+    expect(stream.getStatus()).toBe("idle");
+    expect(FakeSocket.opened).toBe(opened);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Kalshi WebSocket Client
+ * Streams ticker, order book and trade updates with automatic reconnect,
+ * resubscribe and sequence gap detection
+ */
+
+import type { StreamChannel, StreamMessage, StreamStatus } from "./types";
+
+// Browsers can't sign the upgrade, so they connect through our relay
+const IS_BROWSER = typeof window !== "undefined";
+const KALSHI_WS_URL = "wss://api.elections.kalshi.com/trade-api/ws/v2";
+
+function defaultStreamUrl(): string {
+  if (!IS_BROWSER) return KALSHI_WS_URL;
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/api/kalshi/ws`;
+}
+
+export interface StreamOptions {
+  url?: string;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  WebSocketImpl?: typeof WebSocket; // Injectable for tests and non-browser runtimes
+}
+
+export class StreamSubscriptionError extends Error {
+  constructor(
+    message: string,
+    public code: number,
+    public channel: StreamChannel
+  ) {
+    super(message);
+    this.name = "StreamSubscriptionError";
+  }
+}
+
+type MessageHandler = (message: StreamMessage) => void;
+type ErrorHandler = (error: StreamSubscriptionError) => void;
+type StatusListener = (status: StreamStatus) => void;
+type GapListener = (info: { channel: StreamChannel; expected: number; received: number }) => void;
+
+interface Subscription {
+  channel: StreamChannel;
+  tickers?: string[];
+  handler: MessageHandler;
+  onError?: ErrorHandler;
+  sid?: number; // Server-assigned once the subscribe is acknowledged
+  lastSeq?: number;
+}
+
+// Control frames sent back by the server in reply to our commands
+type ControlMessage =
+  | { id: number; type: "subscribed"; msg: { channel: string; sid: number } }
+  | { id: number; type: "unsubscribed"; sid: number }
+  | { id: number; type: "error"; msg: { code: number; msg: string } };
+
+export class KalshiStream {
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = "idle";
+  private attempt = 0;
+  private nextCommandId = 1;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private subscriptions = new Set<Subscription>();
+  private pendingCommands = new Map<number, Subscription>();
+  private bySid = new Map<number, Subscription>();
+
+  private statusListeners = new Set<StatusListener>();
+  private gapListeners = new Set<GapListener>();
+
+  private readonly url: string;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly WebSocketImpl?: typeof WebSocket;
+
+  constructor(options: StreamOptions = {}) {
+    this.url = options.url ?? defaultStreamUrl();
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30 * 1000;
+    this.WebSocketImpl = options.WebSocketImpl;
+  }
+
+  /**
+   * Current connection status
+   */
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  /**
+   * Open the connection. Subscriptions are (re)sent once it opens.
+   */
+  connect(): void {
+    if (this.socket || this.status === "connecting") return;
+
+    const Impl = this.WebSocketImpl ?? globalThis.WebSocket;
+    if (!Impl) {
+      this.setStatus("closed");
+      return;
+    }
+
+    this.setStatus(this.attempt > 0 ? "reconnecting" : "connecting");
+    const socket = new Impl(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.setStatus("open");
+      this.resubscribeAll();
+    };
+
+    socket.onmessage = (event) => this.handleFrame(event.data);
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.pendingCommands.clear();
+      this.bySid.clear();
+
+      if (this.status !== "closed") this.scheduleReconnect();
+    };
+
+    // Errors are always followed by close, which drives reconnection
+    socket.onerror = () => {};
+  }
+
+  /**
+   * Close the connection for good, no reconnect
+   */
+  disconnect(): void {
+    this.setStatus("closed");
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  /**
+   * Subscribe to a channel, optionally limited to some markets.
+   * Returns a function that removes the subscription. A subscribe the
+   * server rejects is removed and reported to `onError`.
+   */
+  subscribe(
+    channel: StreamChannel,
+    tickers: string[] | undefined,
+    handler: MessageHandler,
+    onError?: ErrorHandler
+  ): () => void {
+    const subscription: Subscription = { channel, tickers, handler, onError };
+    this.subscriptions.add(subscription);
+
+    if (this.status === "open") this.sendSubscribe(subscription);
+    else this.connect();
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (subscription.sid !== undefined) {
+        this.bySid.delete(subscription.sid);
+        this.send({
+          id: this.nextCommandId++,
+          cmd: "unsubscribe",
+          params: { sids: [subscription.sid] },
+        });
+      }
+    };
+  }
+
+  /**
+   * Listen for connection status changes
+   */
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Listen for sequence gaps. The affected subscription is resubscribed
+   * automatically, which delivers a fresh snapshot for order books.
+   */
+  onGap(listener: GapListener): () => void {
+    this.gapListeners.add(listener);
+    return () => this.gapListeners.delete(listener);
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private scheduleReconnect(): void {
+    if (this.subscriptions.size === 0) {
+      this.setStatus("idle");
+      return;
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** this.attempt);
+    this.attempt++;
+    this.setStatus("reconnecting");
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, Math.random() * ceiling);
+  }
+
+  private send(command: Record<string, unknown>): void {
+    if (this.socket?.readyState === 1) {
+      this.socket.send(JSON.stringify(command));
+    }
+  }
+
+  private sendSubscribe(subscription: Subscription): void {
+    const id = this.nextCommandId++;
+    subscription.sid = undefined;
+    subscription.lastSeq = undefined;
+    this.pendingCommands.set(id, subscription);
+
+    this.send({
+      id,
+      cmd: "subscribe",
+      params: {
+        channels: [subscription.channel],
+        ...(subscription.tickers?.length
+          ? { market_tickers: subscription.tickers }
+          : {}),
+      },
+    });
+  }
+
+  private resubscribeAll(): void {
+    this.pendingCommands.clear();
+    this.bySid.clear();
+    this.subscriptions.forEach((subscription) => this.sendSubscribe(subscription));
+  }
+
+  private resubscribe(subscription: Subscription): void {
+    if (subscription.sid !== undefined) {
+      this.bySid.delete(subscription.sid);
+      this.send({
+        id: this.nextCommandId++,
+        cmd: "unsubscribe",
+        params: { sids: [subscription.sid] },
+      });
+    }
+    this.sendSubscribe(subscription);
+  }
+
+  private handleFrame(data: unknown): void {
+    if (typeof data !== "string") return;
+
+    let frame: (StreamMessage | ControlMessage) & { type: string };
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    switch (frame.type) {
+      case "subscribed": {
+        const control = frame as Extract<ControlMessage, { type: "subscribed" }>;
+        const subscription = this.pendingCommands.get(control.id);
+        this.pendingCommands.delete(control.id);
+        if (subscription && this.subscriptions.has(subscription)) {
+          subscription.sid = control.msg.sid;
+          this.bySid.set(control.msg.sid, subscription);
+        } else if (subscription) {
+          // Dropped before the ack, when it had no sid to unsubscribe with
+          this.send({
+            id: this.nextCommandId++,
+            cmd: "unsubscribe",
+            params: { sids: [control.msg.sid] },
+          });
+        }
+        return;
+      }
+      case "error": {
+        const control = frame as Extract<ControlMessage, { type: "error" }>;
+        const subscription = this.pendingCommands.get(control.id);
+        this.pendingCommands.delete(control.id);
+
+        // A rejected subscribe would otherwise be resent on every reconnect
+        if (subscription && this.subscriptions.has(subscription)) {
+          this.subscriptions.delete(subscription);
+          subscription.onError?.(
+            new StreamSubscriptionError(control.msg.msg, control.msg.code, subscription.channel)
+          );
+        } else if (!subscription) {
+          console.warn(`[kalshi] Stream error ${control.msg.code}: ${control.msg.msg}`);
+        }
+        return;
+      }
+      case "unsubscribed":
+        return;
+    }
+
+    const message = frame as StreamMessage;
+    const subscription = this.bySid.get(message.sid);
+    if (!subscription) return;
+
+    if (message.seq !== undefined) {
+      // Snapshots restart the sequence
+      const expected =
+        subscription.lastSeq === undefined || message.type === "orderbook_snapshot"
+          ? message.seq
+          : subscription.lastSeq + 1;
+
+      if (message.seq !== expected) {
+        this.gapListeners.forEach((listener) =>
+          listener({ channel: subscription.channel, expected, received: message.seq! })
+        );
+        this.resubscribe(subscription);
+        return;
+      }
+      subscription.lastSeq = message.seq;
+    }
+
+    subscription.handler(message);
+  }
+}
+
+let sharedStream: KalshiStream | null = null;
+
+/**
+ * The app-wide stream, created on first use
+ */
+export function getMarketStream(): KalshiStream {
+  if (!sharedStream) sharedStream = new KalshiStream();
+  return sharedStream;
+}
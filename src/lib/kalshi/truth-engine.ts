@@ -0,0 +1,183 @@
+/**
+ * Truth Engine
+ * Pluggable probability models that estimate a market's yes probability and
+ * turn the estimate into an AIAnalysis record with edge against the book.
+ * Probabilities are 0-1, prices in cents.
+ */
+
+import type { AIAnalysis, Market, SeriesInstance, Trade } from "./types";
+
+export type AnalysisConfidence = AIAnalysis["confidence"];
+
+/**
+ * Data a model may draw on. Loaders fill in what they can; models return
+ * null when what they need is missing.
+ */
+export interface ModelContext {
+  trades?: Trade[]; // Recent prints, newest first
+  seriesHistory?: SeriesInstance[]; // Settled past instances of the market's series
+  nowMs: number;
+}
+
+export interface ModelEstimate {
+  probability: number;
+  confidence: AnalysisConfidence;
+  reasoning: string;
+  sources: string[];
+}
+
+export interface ProbabilityModel {
+  id: string;
+  name: string;
+  description: string;
+  estimate: (
+    market: Market,
+    context: ModelContext,
+    options?: { signal?: AbortSignal }
+  ) => Promise<ModelEstimate | null>;
+}
+
+export interface BookEdge {
+  yes: number; // Expected value of buying yes at the ask, per $1 contract
+  no: number; // Expected value of buying no at the no ask (100 - yes bid)
+  edge: number; // Signed best edge: positive favors yes, negative favors no, 0 inside the spread
+}
+
+function clampProbability(p: number): number {
+  return Math.min(0.99, Math.max(0.01, p));
+}
+
+function hasTwoSidedQuote(market: Market): boolean {
+  return market.yes_bid > 0 && market.yes_ask > 0;
+}
+
+/**
+ * The market's own probability: the mid when two-sided, else the last trade
+ */
+export function marketProbability(market: Market): number {
+  return hasTwoSidedQuote(market) ? (market.yes_bid + market.yes_ask) / 200 : market.last_price / 100;
+}
+
+/**
+ * Edge of a probability estimate against the yes ask and the yes bid.
+ * An estimate inside the spread has no tradeable edge.
+ */
+export function computeEdge(probability: number, market: Market): BookEdge {
+  const yes = market.yes_ask > 0 ? probability - market.yes_ask / 100 : 0;
+  const no = market.yes_bid > 0 ? market.yes_bid / 100 - probability : 0;
+  const edge = yes > 0 ? yes : no > 0 ? -no : 0;
+  return { yes, no, edge };
+}
+
+// Confidence from how much evidence backed the estimate
+function confidenceFor(samples: number, thresholds: [number, number]): AnalysisConfidence {
+  if (samples >= thresholds[1]) return "high";
+  if (samples >= thresholds[0]) return "medium";
+  return "low";
+}
+
+// Fewer settled instances than this and a base rate is noise
+const MIN_BASE_RATE_SAMPLES = 5;
+
+/**
+ * How often past instances of the series settled yes for this outcome.
+ * Multi-outcome series are matched on the outcome's yes subtitle.
+ */
+export const seriesBaseRateModel: ProbabilityModel = {
+  id: "base-rate",
+  name: "Series base rate",
+  description: "Share of past instances of this series that settled yes",
+  estimate: async (market, context) => {
+    const settled = (context.seriesHistory ?? []).filter(
+      (instance) => instance.settled && instance.event_ticker !== market.event_ticker
+    );
+
+    const outcomes = settled
+      .map((instance) =>
+        instance.markets.length === 1
+          ? instance.markets[0]
+          : instance.markets.find((m) => m.yes_sub_title && m.yes_sub_title === market.yes_sub_title)
+      )
+      .filter((m): m is Market => !!m);
+
+    if (outcomes.length < MIN_BASE_RATE_SAMPLES) return null;
+
+    const yesCount = outcomes.filter((m) => m.result === "yes").length;
+    // Laplace smoothing keeps a short streak from reading as certainty
+    const probability = clampProbability((yesCount + 1) / (outcomes.length + 2));
+
+    return {
+      probability,
+      confidence: confidenceFor(outcomes.length, [12, 30]),
+      reasoning: `${yesCount} of the last ${outcomes.length} settled instances resolved yes.`,
+      sources: [`Kalshi series history (${outcomes.length} instances)`],
+    };
+  },
+};
+
+// Trades older than this say little about the current book
+const TRADE_FLOW_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * The mid, leaned towards the side that has been taking liquidity. Full
+ * one-sided flow moves the estimate to the touch, never beyond it.
+ */
+export const tradeFlowModel: ProbabilityModel = {
+  id: "trade-flow",
+  name: "Trade-flow mid",
+  description: "Mid price adjusted for recent aggressive buying and selling",
+  estimate: async (market, context) => {
+    if (!hasTwoSidedQuote(market)) return null;
+
+    const recent = (context.trades ?? []).filter(
+      (t) => context.nowMs - new Date(t.created_time).getTime() <= TRADE_FLOW_WINDOW_MS
+    );
+    const yesVolume = recent.filter((t) => t.taker_side === "yes").reduce((sum, t) => sum + t.count, 0);
+    const noVolume = recent.filter((t) => t.taker_side === "no").reduce((sum, t) => sum + t.count, 0);
+    const total = yesVolume + noVolume;
+    if (total === 0) return null;
+
+    const imbalance = (yesVolume - noVolume) / total;
+    const mid = (market.yes_bid + market.yes_ask) / 2;
+    const halfSpread = (market.yes_ask - market.yes_bid) / 2;
+    const probability = clampProbability((mid + imbalance * halfSpread) / 100);
+
+    const leaning = imbalance > 0 ? "yes" : "no";
+    return {
+      probability,
+      confidence: confidenceFor(recent.length, [10, 50]),
+      reasoning:
+        imbalance === 0
+          ? `Balanced flow over ${recent.length} recent trades; estimate sits at the mid.`
+          : `${Math.round(Math.abs(imbalance) * 100)}% net ${leaning} taker flow over ${recent.length} recent trades leans the mid towards the ${imbalance > 0 ? "ask" : "bid"}.`,
+      sources: [`Kalshi trade tape (${recent.length} trades, ${total} contracts)`],
+    };
+  },
+};
+
+export const BASELINE_MODELS = [tradeFlowModel, seriesBaseRateModel];
+
+/**
+ * Run a model and package its estimate as an AIAnalysis
+ */
+export async function runProbabilityModel(
+  model: ProbabilityModel,
+  market: Market,
+  context: ModelContext,
+  options?: { signal?: AbortSignal }
+): Promise<AIAnalysis | null> {
+  const estimate = await model.estimate(market, context, options);
+  if (!estimate) return null;
+
+  return {
+    marketId: market.ticker,
+    modelId: model.id,
+    aiProbability: estimate.probability,
+    marketProbability: marketProbability(market),
+    edge: computeEdge(estimate.probability, market).edge,
+    confidence: estimate.confidence,
+    reasoning: estimate.reasoning,
+    sources: estimate.sources,
+    updatedAt: new Date(context.nowMs).toISOString(),
+  };
+}
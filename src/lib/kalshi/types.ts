@@ -4,6 +4,19 @@
  */
 
 // Market Types - Based on actual API response
+export type MarketStatus =
+  | "unopened"
+  | "initialized"
+  | "open"
+  | "active"
+  | "inactive"
+  | "closed"
+  | "determined"
+  | "disputed"
+  | "amended"
+  | "settled"
+  | "finalized";
+
 export interface Market {
   // Core identifiers
   ticker: string;
@@ -13,8 +26,8 @@ export interface Market {
   category?: string;
 
   // Market state
-  status: "unopened" | "open" | "closed" | "settled" | "active";
-  market_type: "binary";
+  status: MarketStatus;
+  market_type: "binary" | "scalar";
   result?: string;
 
   // Pricing (in cents, 0-100)
@@ -102,13 +115,33 @@ export interface Series {
   title: string;
   frequency: string;
   category: string;
+  tags?: string[];
+  settlement_sources?: SettlementSource[];
+  contract_url?: string;
+}
+
+export interface SettlementSource {
+  name: string;
+  url: string;
+}
+
+// One past or present instance (event) of a recurring series
+export interface SeriesInstance {
+  event_ticker: string;
+  title: string;
+  close_time: string;
+  markets: Market[];
+  winner?: Market; // Market that settled yes, if any
+  settled: boolean;
 }
 
 // Order Book Types
 export interface OrderBook {
   ticker: string;
-  bids: OrderBookEntry[];
-  asks?: OrderBookEntry[]; // Kalshi only returns bids
+  yes: OrderBookEntry[]; // Resting yes bids
+  no: OrderBookEntry[]; // Resting no bids
+  bids: OrderBookEntry[]; // Alias for yes
+  asks: OrderBookEntry[]; // Yes asks implied from no bids (Kalshi only rests bids)
 }
 
 export interface OrderBookEntry {
@@ -134,13 +167,198 @@ export interface Candlestick {
   low: number;
   close: number;
   volume: number;
-  timestamp: string;
+  timestamp: string; // End of the period
+  yesBid?: number; // Closing yes bid (0-1), when the API reports quotes
+  yesAsk?: number; // Closing yes ask (0-1)
 }
 
 export interface CandlestickHistory {
+  ticker: string;
+  periodInterval: CandlestickInterval;
   candlesticks: Candlestick[];
+  source: "candlesticks" | "trades"; // Built locally from trades when the endpoint is unavailable
+}
+
+// Period length in minutes, the only intervals Kalshi supports
+export type CandlestickInterval = 1 | 60 | 1440;
+
+export interface CandlestickOptions {
+  periodInterval: CandlestickInterval;
+  startTs: number; // Unix seconds
+  endTs: number; // Unix seconds
+  seriesTicker?: string; // Derived from the market's event ticker when omitted
+}
+
+// Portfolio Types (amounts in cents)
+export interface Balance {
+  balance: number; // Available cash
+  portfolio_value?: number; // Mark-to-market value of open positions
+  updated_ts?: number;
+}
+
+export interface MarketPosition {
+  ticker: string;
+  position: number; // Positive = yes contracts, negative = no contracts
+  total_traded: number;
+  market_exposure: number;
+  realized_pnl: number;
+  resting_orders_count: number;
+  fees_paid: number;
+  last_updated_ts?: string;
+}
+
+export interface EventPosition {
+  event_ticker: string;
+  total_cost: number;
+  event_exposure: number;
+  realized_pnl: number;
+  resting_order_count: number;
+  fees_paid: number;
+}
+
+export interface Fill {
+  trade_id: string;
+  order_id: string;
+  ticker: string;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  count: number;
+  yes_price: number;
+  no_price: number;
+  is_taker: boolean;
+  created_time: string;
+}
+
+export interface Settlement {
+  ticker: string;
+  market_result: string;
+  yes_count: number;
+  yes_total_cost: number;
+  no_count: number;
+  no_total_cost: number;
+  revenue: number;
+  settled_time: string;
+}
+
+// Order Types (prices in cents)
+export type OrderSide = "yes" | "no";
+export type OrderAction = "buy" | "sell";
+export type OrderType = "limit" | "market";
+export type OrderStatus = "resting" | "canceled" | "executed" | "pending";
+export type TimeInForce =
+  | "good_till_canceled"
+  | "immediate_or_cancel"
+  | "fill_or_kill";
+
+export interface Order {
+  order_id: string;
+  client_order_id: string;
+  ticker: string;
+  side: OrderSide;
+  action: OrderAction;
+  type: OrderType;
+  status: OrderStatus;
+  yes_price: number;
+  no_price: number;
+  initial_count?: number;
+  remaining_count?: number;
+  fill_count?: number;
+  taker_fees?: number;
+  maker_fees?: number;
+  created_time?: string;
+  expiration_time?: string;
+  last_update_time?: string;
+}
+
+export interface CreateOrderRequest {
+  ticker: string;
+  side: OrderSide;
+  action: OrderAction;
+  count: number;
+  type: OrderType;
+  client_order_id?: string; // Generated when omitted, lets retries be deduplicated
+  yes_price?: number; // Limit price, set exactly one of yes_price / no_price
+  no_price?: number;
+  expiration_ts?: number; // Unix seconds, omit for good-till-canceled
+  time_in_force?: TimeInForce;
+  buy_max_cost?: number; // Cap in cents for market buys
+  post_only?: boolean;
+  reduce_only?: boolean;
+}
+
+export interface AmendOrderRequest {
+  ticker: string;
+  side: OrderSide;
+  action: OrderAction;
+  count: number; // New total contract count
+  yes_price?: number;
+  no_price?: number;
+  client_order_id: string; // Current client order id
+  updated_client_order_id?: string;
+}
+
+export type DecreaseOrderRequest = { reduce_by: number } | { reduce_to: number };
+
+export interface BatchOrderResult {
+  order?: Order;
+  error?: { code: string; message: string };
+}
+
+export interface AmendOrderResponse {
+  old_order: Order;
+  order: Order;
+}
+
+export interface CancelOrderResponse {
+  order: Order;
+  reduced_by: number;
+}
+
+// Streaming Types (WebSocket API, prices in cents)
+// Public channels only; the relay doesn't carry the account's private fills
+export type StreamChannel = "ticker" | "orderbook_delta" | "trade";
+
+export type StreamStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export interface TickerUpdate {
+  market_ticker: string;
+  price: number; // Last traded yes price
+  yes_bid: number;
+  yes_ask: number;
+  volume?: number;
+  open_interest?: number;
+  ts: number; // Unix seconds
 }
 
+export interface OrderBookSnapshotUpdate {
+  market_ticker: string;
+  yes?: [number, number][]; // [price, quantity]
+  no?: [number, number][];
+}
+
+export interface OrderBookDeltaUpdate {
+  market_ticker: string;
+  price: number;
+  delta: number; // Change in resting quantity at this price
+  side: OrderSide;
+}
+
+export interface TradeUpdate {
+  trade_id: string;
+  market_ticker: string;
+  yes_price: number;
+  no_price: number;
+  count: number;
+  taker_side: OrderSide;
+  ts: number;
+}
+
+export type StreamMessage =
+  | { type: "ticker"; sid: number; seq?: number; msg: TickerUpdate }
+  | { type: "orderbook_snapshot"; sid: number; seq: number; msg: OrderBookSnapshotUpdate }
+  | { type: "orderbook_delta"; sid: number; seq: number; msg: OrderBookDeltaUpdate }
+  | { type: "trade"; sid: number; seq?: number; msg: TradeUpdate };
+
 // API Response Types
 export interface MarketsResponse {
   markets: Market[];
@@ -152,25 +370,116 @@ export interface EventsResponse {
   cursor?: string;
 }
 
+export interface SeriesListResponse {
+  series: Series[];
+}
+
 export interface TradesResponse {
   trades: Trade[];
   cursor?: string;
 }
 
+export interface OrdersResponse {
+  orders: Order[];
+  cursor?: string;
+}
+
+export interface PositionsResponse {
+  market_positions: MarketPosition[];
+  event_positions: EventPosition[];
+  cursor?: string;
+}
+
+export interface FillsResponse {
+  fills: Fill[];
+  cursor?: string;
+}
+
+export interface SettlementsResponse {
+  settlements: Settlement[];
+  cursor?: string;
+}
+
 // Filter Types
 export interface MarketFilters {
   status?: "unopened" | "open" | "closed" | "settled";
   series_ticker?: string;
   event_ticker?: string;
-  min_close_ts?: number;
-  max_close_ts?: number;
+  tickers?: string[]; // Fetch an explicit batch of markets
+  min_close_ts?: number; // Unix seconds
+  max_close_ts?: number; // Unix seconds
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SeriesFilters {
+  category?: string;
+  tags?: string;
+}
+
+export interface TradeFilters {
+  ticker?: string;
+  min_ts?: number;
+  max_ts?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface EventFilters {
+  status?: "unopened" | "open" | "closed" | "settled";
+  series_ticker?: string;
+  with_nested_markets?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface PositionFilters {
+  ticker?: string;
+  event_ticker?: string;
+  count_filter?: "position" | "total_traded" | "resting_order_count";
+  settlement_status?: "all" | "settled" | "unsettled";
+  limit?: number;
+  cursor?: string;
+}
+
+export interface OrderFilters {
+  ticker?: string;
+  event_ticker?: string;
+  status?: OrderStatus;
+  min_ts?: number;
+  max_ts?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FillFilters {
+  ticker?: string;
+  order_id?: string;
+  min_ts?: number;
+  max_ts?: number;
   limit?: number;
   cursor?: string;
 }
 
+export interface SettlementFilters {
+  ticker?: string;
+  event_ticker?: string;
+  min_ts?: number;
+  max_ts?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+// Pagination Types
+export interface PaginationOptions {
+  maxItems?: number; // Stop once this many items have been collected
+  maxPages?: number; // Hard cap on requests, guards against runaway cursors
+}
+
 // AI Analysis Types (for our platform)
 export interface AIAnalysis {
   marketId: string;
+  modelId?: string; // ProbabilityModel that produced it
   aiProbability: number;
   marketProbability: number;
   edge: number;
@@ -197,6 +506,8 @@ export interface NewsCorrelation {
     timestamp: string;
   };
   sentiment: "positive" | "negative" | "neutral";
-  priceImpact: number;
-  relevanceScore: number;
+  priceImpact: number | null; // Yes price change after the headline in probability points, null when unmeasured
+  relevanceScore: number; // 0-1
+  matchedTerms?: string[];
+  tradesInWindow?: number;
 }
@@ -93,6 +93,29 @@ export function formatCountdown(endDate: Date | string): string {
   return `${minutes}m`;
 }
 
+/**
+ * Link to a market's detail page (query params, since the site is a static export)
+ */
+export function marketPath(ticker: string): string {
+  return `/market/?ticker=${encodeURIComponent(ticker)}`;
+}
+
+/**
+ * Link to an event's outcome page
+ */
+export function eventPath(eventTicker: string): string {
+  return `/event/?ticker=${encodeURIComponent(eventTicker)}`;
+}
+
+/**
+ * Resolve a theme CSS variable to its color, for canvas drawing such as
+ * charts, which can't read CSS variables itself
+ */
+export function themeColor(name: string, fallback: string): string {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(name).trim();
+  return value || fallback;
+}
+
 /**
  * Truncate wallet address
  */